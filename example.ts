@@ -93,6 +93,9 @@ async function ejemploBasico() {
           getConnection: () =>
             Promise.resolve({
               execute: () => Promise.resolve({ rows: [{ mensaje: "Conexión exitosa!" }] }),
+              executeMany: () => Promise.resolve({ rowsAffected: 0 }),
+              commit: () => Promise.resolve(),
+              rollback: () => Promise.resolve(),
               close: () => Promise.resolve(),
             }),
           close: () => Promise.resolve(),
@@ -18,6 +18,9 @@ const mockOracledb = {
       getConnection: () =>
         Promise.resolve({
           execute: () => Promise.resolve({ rows: [{ mensaje: "Conexión exitosa" }] }),
+          executeMany: () => Promise.resolve({ rowsAffected: 0 }),
+          commit: () => Promise.resolve(),
+          rollback: () => Promise.resolve(),
           close: () => Promise.resolve(),
         }),
       close: () => Promise.resolve(),
@@ -52,6 +52,9 @@ const mockDriver = {
               });
             }
           },
+          executeMany: () => Promise.resolve({ rowsAffected: 0 }),
+          commit: () => Promise.resolve(),
+          rollback: () => Promise.resolve(),
           close: () => Promise.resolve(),
         }),
       close: () => Promise.resolve(),
@@ -248,7 +251,7 @@ async function runExamples() {
     console.log("");
     console.log("📚 Funcionalidades demostradas:");
     console.log("   ✅ Consultas SQL directas con parámetros");
-    console.log("   ✅ Paginación automática con ROWNUM");
+    console.log("   ✅ Paginación automática (ROWNUM u OFFSET/FETCH según el dialecto)");
     console.log("   ✅ SQL Builder dinámico (CRUD)");
     console.log("   ✅ Consultas complejas (JOIN, GROUP BY)");
     console.log("   ✅ Manejo de tipos de datos Oracle");
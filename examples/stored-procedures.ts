@@ -80,6 +80,9 @@ async function ejemplosProcedimientosAlmacenados() {
 
                 return Promise.resolve({ rowsAffected: 1 });
               },
+              executeMany: () => Promise.resolve({ rowsAffected: 0 }),
+              commit: () => Promise.resolve(),
+              rollback: () => Promise.resolve(),
               close: () => Promise.resolve(),
             }),
           close: () => Promise.resolve(),
@@ -7,29 +7,108 @@
  */
 
 // Exportar todos los módulos principales
-export { closePool, initializePool, initializePoolWithConfig, OracleConnection, querySQL } from "./src/connection.ts";
+export {
+  closePool,
+  executeManySQL,
+  getConnectionDialect,
+  getCurrentTransaction,
+  initializePool,
+  initializePoolWithConfig,
+  OracleConnection,
+  querySQL,
+  streamSQL,
+  withTransaction,
+} from "./src/connection.ts";
+export { Transaction } from "./src/transaction.ts";
 export { MemoryCache } from "./src/cache.ts";
 export { SqlBuilder } from "./src/sql-builder.ts";
+export { RelationLoader } from "./src/relation-loader.ts";
 export { DataValidator } from "./src/validator.ts";
 export { GenericController } from "./src/controller.ts";
 export { StoredProcedureExecutor } from "./src/stored-procedure.ts";
+export { createRestHandler, RestRouter } from "./src/rest-router.ts";
+export { OpenApiGenerator } from "./src/openapi.ts";
 export { ConfigManager, configManager } from "./src/config-manager.ts";
+export { EntityConfigManager } from "./src/entity-config.ts";
+export { SchemaIntrospector } from "./src/introspection.ts";
+export { getDefaultDialect, setDefaultDialect, SqlDialect } from "./src/dialect.ts";
+export { EntityExporter, EXPORT_CONTENT_TYPES } from "./src/export.ts";
+export { diffRecords, getAuditContext, OracleAuditSink, runWithAuditContext } from "./src/audit.ts";
+export {
+  BatchOperationError,
+  ConcurrencyConflictError,
+  DataValidationError,
+  HookVetoError,
+  InvalidIdentifierError,
+  OperationNotAllowedError,
+  OracleLibError,
+  RecordNotFoundError,
+} from "./src/errors.ts";
 
 // Exportar tipos
+export type { AuditContext } from "./src/audit.ts";
+export type { ExportDateFormats, ExportWriteOptions } from "./src/export.ts";
+export type { ExecuteManyOptions, StreamOptions } from "./src/connection.ts";
+export type { OracleVersion } from "./src/dialect.ts";
+export type { IntrospectionOptions } from "./src/introspection.ts";
+export type { EntityResolver } from "./src/relation-loader.ts";
+export type { RestHandler, RestRouterOptions } from "./src/rest-router.ts";
+export type { OpenApiDocument, OpenApiOptions } from "./src/openapi.ts";
 export type {
+  AggregateFunction,
+  AggregateMetric,
+  AggregateOptions,
+  AppConfig,
+  AuditChange,
+  AuditConfig,
+  AuditEntry,
+  AuditOperation,
+  AuditSink,
+  BatchOptions,
+  BatchResult,
+  BatchRowError,
+  BindDefinition,
+  BindType,
   CacheConfig,
+  CursorPaginatedResponse,
+  CursorSearchOptions,
   EntityConfig,
+  ExecuteManyResult,
+  ExportFormat,
+  ExportOptions,
+  FacetOptions,
+  FacetValue,
   FieldConfig,
+  FilterCondition,
+  FilterExpression,
+  FilterOperator,
+  FilterOperators,
+  FilterValue,
+  HookContext,
+  IterateOptions,
+  LifecycleHook,
+  LifecycleHookName,
   PaginatedResponse,
   QueryParams,
+  RecordId,
+  RelationConfig,
   SearchOptions,
+  SoftDeleteConfig,
+  SqlBatch,
   SqlQuery,
   StoredProcedureConfig,
   StoredProcedureParam,
   StoredProcedureResult,
+  TextSearchConfig,
+  TextSearchStrategy,
+  UpsertAction,
+  UpsertManyResult,
+  UpsertOptions,
+  UpsertResult,
   ValidationRule,
   ValidationSchema,
+  WriteOptions,
 } from "./src/types.ts";
 
 // Exportar constantes y configuraciones
-export { DEFAULT_CONFIG } from "./src/config.ts";
+export { AGGREGATE_FUNCTIONS, DEFAULT_CONFIG, FILTER_OPERATORS, SQL_OPERATORS } from "./src/config.ts";
@@ -0,0 +1,68 @@
+#!/usr/bin/env -S deno run --allow-net --allow-read --allow-write --allow-env --allow-ffi
+
+/**
+ * Script para generar config/entities.json a partir del diccionario de datos de Oracle
+ *
+ * Uso:
+ * deno run --allow-net --allow-read --allow-write --allow-env --allow-ffi scripts/introspect.ts [opciones]
+ *
+ * Opciones:
+ *   --schema=HR                  Esquema a leer (por defecto, el del usuario conectado)
+ *   --tables=EMPLOYEES,JOBS      Tablas a incluir (por defecto, todas)
+ *   --naming=camelCase           Nombres de campo en camelCase con `column` (por defecto, igual a la columna)
+ *   --output=./config/entities.json
+ *   --env=development            Entorno de config/database.json (las variables ORACLE_* tienen prioridad)
+ *   --dry-run                    Mostrar el resultado sin escribir el archivo
+ *
+ * Ejemplo:
+ * deno run -A scripts/introspect.ts --schema=HR --tables=EMPLOYEES,DEPARTMENTS --naming=camelCase
+ */
+
+import oracledb from "npm:oracledb@6";
+import { closePool, configManager, EntityConfigManager, initializePoolWithConfig } from "../mod.ts";
+
+// Parseo simple de argumentos --clave=valor
+const options: Record<string, string | boolean> = {};
+for (const arg of Deno.args) {
+  const match = /^--([\w-]+)(?:=(.*))?$/.exec(arg);
+  if (!match) {
+    console.error(`❌ Argumento no reconocido: ${arg}`);
+    Deno.exit(1);
+  }
+  options[match[1]] = match[2] ?? true;
+}
+
+const naming = options.naming === "camelCase" ? "camelCase" : "column";
+const tables = typeof options.tables === "string" ? options.tables.split(",").map((t) => t.trim()) : undefined;
+const schema = typeof options.schema === "string" ? options.schema : undefined;
+const output = typeof options.output === "string" ? options.output : "./config/entities.json";
+const environment = typeof options.env === "string" ? options.env : "development";
+const dryRun = options["dry-run"] === true;
+
+async function introspect() {
+  console.log("🔍 Leyendo diccionario de datos...");
+
+  await initializePoolWithConfig(
+    oracledb as unknown as Parameters<typeof initializePoolWithConfig>[0],
+    () => configManager.hybrid("./config/database.json", environment),
+  );
+
+  try {
+    const manager = new EntityConfigManager(output);
+    const entities = await manager.introspect({ schema, tables, fieldNaming: naming, write: !dryRun });
+
+    if (dryRun) {
+      console.log(JSON.stringify(entities, null, 2));
+    } else {
+      console.log(`✅ ${Object.keys(entities).length} entidades combinadas en ${output}`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Error: ${errorMessage}`);
+    Deno.exitCode = 1;
+  } finally {
+    await closePool();
+  }
+}
+
+await introspect();
@@ -0,0 +1,121 @@
+/**
+ * Auditoría - Historial de cambios realizados a través de GenericController
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { querySQL } from "./connection.ts";
+import { InvalidIdentifierError } from "./errors.ts";
+import type { AuditChange, AuditEntry, AuditOperation, AuditSink } from "./types.ts";
+
+// Contexto de la petición en curso (quién realiza los cambios)
+export interface AuditContext {
+  actor: string | null;
+}
+
+// Nombre de tabla, opcionalmente con esquema (ej: AUDIT.AUDIT_LOG)
+const TABLE_NAME_REGEX = /^[A-Za-z][\w$#]*(\.[A-Za-z][\w$#]*)?$/;
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Ejecuta un callback con un contexto de auditoría; las operaciones que se ejecuten dentro
+ * (incluidas las asíncronas) registran el actor indicado
+ */
+export function runWithAuditContext<T>(context: AuditContext, callback: () => T): T {
+  return auditContext.run(context, callback);
+}
+
+/**
+ * Obtiene el contexto de auditoría activo, si existe
+ */
+export function getAuditContext(): AuditContext | null {
+  return auditContext.getStore() ?? null;
+}
+
+/**
+ * Diferencias campo a campo entre dos versiones de un registro (null = no existe)
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+  excludeFields: string[] = [],
+): AuditChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: AuditChange[] = [];
+
+  for (const field of fields) {
+    if (excludeFields.includes(field)) continue;
+
+    const previous = before?.[field] ?? null;
+    const current = after?.[field] ?? null;
+    if (!isSameValue(previous, current)) {
+      changes.push({ field, before: previous, after: current });
+    }
+  }
+
+  return changes;
+}
+
+// Compara valores de campo (las fechas por su valor)
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return a === b;
+}
+
+/**
+ * Sink de auditoría que guarda las entradas en una tabla de Oracle:
+ *
+ * CREATE TABLE AUDIT_LOG (
+ *   ENTITY_NAME VARCHAR2(128), RECORD_ID VARCHAR2(4000), OPERATION VARCHAR2(10), ACTION_NAME VARCHAR2(128),
+ *   ACTOR VARCHAR2(256), CHANGED_AT TIMESTAMP, CHANGES CLOB
+ * )
+ *
+ * Usa la transacción actual, por lo que la entrada se confirma o revierte junto con el cambio auditado.
+ */
+export class OracleAuditSink implements AuditSink {
+  private table: string;
+
+  constructor(table = "AUDIT_LOG") {
+    if (!TABLE_NAME_REGEX.test(table)) {
+      throw new InvalidIdentifierError(table, "audit.table");
+    }
+    this.table = table;
+  }
+
+  async write(entry: AuditEntry): Promise<void> {
+    await querySQL(
+      `INSERT INTO ${this.table} (ENTITY_NAME, RECORD_ID, OPERATION, ACTION_NAME, ACTOR, CHANGED_AT, CHANGES) ` +
+        `VALUES (:entity, :recordId, :operation, :action, :actor, :changedAt, :changes)`,
+      {
+        entity: entry.entity,
+        recordId: entry.recordId,
+        operation: entry.operation,
+        action: entry.action ?? null,
+        actor: entry.actor,
+        changedAt: entry.timestamp,
+        changes: JSON.stringify(entry.changes),
+      },
+    );
+  }
+
+  async findHistory(entity: string, recordId: string): Promise<AuditEntry[]> {
+    const result = await querySQL(
+      `SELECT ENTITY_NAME AS "entity", RECORD_ID AS "recordId", OPERATION AS "operation", ` +
+        `ACTION_NAME AS "action", ACTOR AS "actor", CHANGED_AT AS "timestamp", CHANGES AS "changes" ` +
+        `FROM ${this.table} WHERE ENTITY_NAME = :entity AND RECORD_ID = :recordId ORDER BY CHANGED_AT`,
+      { entity, recordId },
+    );
+
+    return (result.rows || []).map((row) => ({
+      entity: row.entity as string,
+      recordId: row.recordId as string,
+      operation: row.operation as AuditOperation,
+      ...(row.action ? { action: row.action as string } : {}),
+      actor: (row.actor as string | null) ?? null,
+      timestamp: new Date(row.timestamp as string | Date),
+      changes: row.changes ? JSON.parse(row.changes as string) : [],
+    }));
+  }
+}
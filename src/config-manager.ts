@@ -78,6 +78,7 @@ export class ConfigManager {
       poolPingInterval: parseInt(getEnvVar("POOL_PING_INTERVAL", false) || "60"),
       stmtCacheSize: parseInt(getEnvVar("STMT_CACHE_SIZE", false) || "23"),
       libDir: getEnvVar("LIB_DIR", false),
+      dialect: getEnvVar("DIALECT", false) as DatabaseConfig["dialect"],
     };
 
     this.currentConfig = config;
@@ -227,6 +228,10 @@ export class ConfigManager {
       errors.push("poolMax debe ser mayor o igual a poolMin");
     }
 
+    if (config.dialect && !["11g", "12c", "23ai", "auto"].includes(config.dialect)) {
+      errors.push("dialect debe ser 11g, 12c, 23ai o auto");
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -318,6 +323,7 @@ export class ConfigManager {
       poolPingInterval: cfg.poolPingInterval,
       stmtCacheSize: cfg.stmtCacheSize,
       libDir: cfg.libDir,
+      dialect: cfg.dialect,
     };
   }
 }
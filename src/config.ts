@@ -2,7 +2,7 @@
  * Configuraciones por defecto para la librería Deno Oracle
  */
 
-import type { CacheConfig, OracleConfig } from "./types.ts";
+import type { AggregateFunction, CacheConfig, FilterOperator, OracleConfig } from "./types.ts";
 
 // Configuración por defecto del cache
 export const DEFAULT_CACHE_CONFIG: CacheConfig = {
@@ -73,6 +73,32 @@ export const SQL_OPERATORS = {
   IS_NOT_NULL: "IS NOT NULL",
 } as const;
 
+// Correspondencia entre las claves de FilterOperators y los operadores SQL
+export const FILTER_OPERATORS: Record<FilterOperator, string> = {
+  eq: SQL_OPERATORS.EQUALS,
+  ne: SQL_OPERATORS.NOT_EQUALS,
+  gt: SQL_OPERATORS.GREATER_THAN,
+  gte: SQL_OPERATORS.GREATER_THAN_OR_EQUAL,
+  lt: SQL_OPERATORS.LESS_THAN,
+  lte: SQL_OPERATORS.LESS_THAN_OR_EQUAL,
+  like: SQL_OPERATORS.LIKE,
+  notLike: SQL_OPERATORS.NOT_LIKE,
+  in: SQL_OPERATORS.IN,
+  notIn: SQL_OPERATORS.NOT_IN,
+  isNull: SQL_OPERATORS.IS_NULL,
+  isNotNull: SQL_OPERATORS.IS_NOT_NULL,
+};
+
+// Funciones SQL de las métricas de aggregate()
+export const AGGREGATE_FUNCTIONS: Record<AggregateFunction, string> = {
+  count: "COUNT",
+  sum: "SUM",
+  avg: "AVG",
+  min: "MIN",
+  max: "MAX",
+  countDistinct: "COUNT",
+};
+
 export const VALIDATION_FORMATS = {
   EMAIL: "email",
   URL: "url",
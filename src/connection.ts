@@ -3,12 +3,30 @@
  * Módulo de conexión a Oracle Database optimizado para Deno
  */
 
-import type { QueryResult } from "./types.ts";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { Transaction } from "./transaction.ts";
+import { getDefaultDialect, PAGINATION_BINDS, ROWNUM_ALIAS, SqlDialect } from "./dialect.ts";
+import type { OracleVersion } from "./dialect.ts";
+import type { BindDefinition, BindType, ExecuteManyResult, QueryResult } from "./types.ts";
+
+// Constante de tipo del driver (número en node-oracledb 5, objeto DbType en node-oracledb 6)
+type OracleDbType = number | object;
 
 // Interfaz para el driver Oracle
 interface OracleDriver {
   OUT_FORMAT_OBJECT: number;
   CLOB: number;
+  // Constantes de binds; si el driver no las expone se usan los valores numéricos de node-oracledb
+  BIND_IN?: number;
+  BIND_OUT?: number;
+  DB_TYPE_NUMBER?: OracleDbType;
+  DB_TYPE_VARCHAR?: OracleDbType;
+  DB_TYPE_DATE?: OracleDbType;
+  DB_TYPE_TIMESTAMP?: OracleDbType;
+  DB_TYPE_CLOB?: OracleDbType;
+  DB_TYPE_BLOB?: OracleDbType;
+  DB_TYPE_BOOLEAN?: OracleDbType;
+  DB_TYPE_CURSOR?: OracleDbType;
   outFormat: number;
   fetchAsString: number[];
   initOracleClient: (options: { libDir?: string }) => void;
@@ -22,12 +40,25 @@ interface OraclePool {
   connectionsInUse: number;
 }
 
-interface OracleConnectionInstance {
+export interface OracleConnectionInstance {
   execute: (
     sql: string,
     binds: Record<string, unknown>,
     options: Record<string, unknown>,
   ) => Promise<Record<string, unknown>>;
+  executeMany: (
+    sql: string,
+    binds: Record<string, unknown>[],
+    options: Record<string, unknown>,
+  ) => Promise<Record<string, unknown>>;
+  commit: () => Promise<void>;
+  rollback: () => Promise<void>;
+  close: () => Promise<void>;
+}
+
+// ResultSet del driver (execute con resultSet: true)
+interface OracleResultSet {
+  getRows: (numRows: number) => Promise<Record<string, unknown>[]>;
   close: () => Promise<void>;
 }
 
@@ -43,6 +74,7 @@ export interface DatabaseConfig {
   poolPingInterval?: number;
   stmtCacheSize?: number;
   libDir?: string;
+  dialect?: OracleVersion | "auto"; // SQL generado según la versión; "auto" la detecta al abrir el pool
 }
 
 export interface QueryOptions {
@@ -51,6 +83,36 @@ export interface QueryOptions {
   maxRows?: number;
 }
 
+export interface ExecuteManyOptions {
+  autoCommit?: boolean;
+  batchErrors?: boolean; // Reportar errores por fila en lugar de abortar el lote
+  bindDefs?: Record<string, BindDefinition>;
+  dmlRowCounts?: boolean; // Devolver las filas afectadas por cada conjunto de binds
+}
+
+export interface StreamOptions {
+  fetchArraySize?: number; // Filas leídas por viaje a la base de datos (por defecto 100)
+}
+
+// Filas por lectura del ResultSet en stream()
+const DEFAULT_FETCH_ARRAY_SIZE = 100;
+
+// Constante del driver que corresponde a cada BindType y su valor numérico en node-oracledb
+const DRIVER_BIND_TYPES: Record<BindType, [keyof OracleDriver, number]> = {
+  NUMBER: ["DB_TYPE_NUMBER", 2010],
+  STRING: ["DB_TYPE_VARCHAR", 2001],
+  DATE: ["DB_TYPE_DATE", 2011],
+  TIMESTAMP: ["DB_TYPE_TIMESTAMP", 2012],
+  CLOB: ["DB_TYPE_CLOB", 2017],
+  BLOB: ["DB_TYPE_BLOB", 2019],
+  BOOLEAN: ["DB_TYPE_BOOLEAN", 2022],
+  CURSOR: ["DB_TYPE_CURSOR", 2021],
+};
+
+// Valores numéricos de BIND_IN y BIND_OUT en node-oracledb
+const DRIVER_BIND_IN = 3001;
+const DRIVER_BIND_OUT = 3003;
+
 export interface PaginationParams {
   limit?: number;
   offset?: number;
@@ -64,6 +126,8 @@ export class OracleConnection {
   private isDriverInitialized = false;
   private connectionPool: OraclePool | null = null;
   private oracledb: OracleDriver;
+  private transactionContext = new AsyncLocalStorage<Transaction>();
+  private dialect: SqlDialect | null;
 
   constructor(oracledb: OracleDriver, config: DatabaseConfig) {
     this.oracledb = oracledb;
@@ -76,6 +140,7 @@ export class OracleConnection {
       stmtCacheSize: 23,
       ...config,
     };
+    this.dialect = this.config.dialect && this.config.dialect !== "auto" ? new SqlDialect(this.config.dialect) : null;
     this.initializeDriver();
   }
 
@@ -122,16 +187,23 @@ export class OracleConnection {
   }
 
   /**
-   * Genera consulta con paginación usando ROWNUM
+   * Dialecto SQL de la conexión (configurado, detectado o el dialecto por defecto)
+   */
+  getDialect(): SqlDialect {
+    return this.dialect ?? getDefaultDialect();
+  }
+
+  /**
+   * Detecta la versión del servidor con getDatabaseInfo y la usa como dialecto de la conexión;
+   * si no se puede detectar, conserva el dialecto actual
    */
-  private getQueryWithPagination(query: string): string {
-    return `
-      SELECT * FROM (
-        SELECT A.*, ROWNUM AS RNUM 
-        FROM (${query}) A
-        WHERE ROWNUM <= :limit + :offset
-      ) WHERE RNUM > :offset
-    `;
+  async detectDialect(): Promise<SqlDialect> {
+    const info = await this.getDatabaseInfo();
+    const banner = info?.VERSION ?? info?.version;
+    if (typeof banner === "string") {
+      this.dialect = SqlDialect.fromBanner(banner);
+    }
+    return this.getDialect();
   }
 
   /**
@@ -160,6 +232,11 @@ export class OracleConnection {
 
       console.log("Pool de conexiones Oracle creado exitosamente");
       console.log(`Pool configurado: min=${this.config.poolMin}, max=${this.config.poolMax}`);
+
+      if (this.config.dialect === "auto") {
+        const dialect = await this.detectDialect();
+        console.log(`Dialecto SQL: Oracle ${dialect.version}`);
+      }
     } catch (error) {
       console.error("Error creando pool de conexiones:", error);
       throw error;
@@ -193,6 +270,8 @@ export class OracleConnection {
 
     let connection: OracleConnectionInstance | null = null;
     let query = statement;
+    let queryBinds = binds;
+    const transaction = this.getCurrentTransaction();
 
     // Configurar opciones por defecto
     const options = {
@@ -202,32 +281,40 @@ export class OracleConnection {
     };
 
     try {
-      // Obtener conexión del pool
-      connection = await this.getConnection();
-
-      // Manejar paginación si se especifica
-      if (binds && typeof binds === "object" && "limit" in binds) {
-        if (!("offset" in binds)) {
-          binds.offset = 0;
-        }
-        query = this.getQueryWithPagination(statement);
+      // Manejar paginación si se especifica: { limit, offset } se traducen a los binds del dialecto
+      const paginated = binds && typeof binds === "object" && "limit" in binds;
+      if (paginated) {
+        const { limit, offset = 0, ...otherBinds } = binds;
 
         // Validar parámetros de paginación
-        const limit = binds.limit as number;
-        const offset = binds.offset as number;
-        if (limit < 0 || offset < 0) {
+        if ((limit as number) < 0 || (offset as number) < 0) {
           throw new Error("Los parámetros limit y offset deben ser >= 0");
         }
+
+        query = this.getDialect().paginate(statement);
+        queryBinds = { ...otherBinds, [PAGINATION_BINDS.offset]: offset, [PAGINATION_BINDS.limit]: limit };
       }
+      queryBinds = this.toDriverBinds(queryBinds);
+
+      let result: QueryResult;
+      if (transaction) {
+        // Dentro de una transacción activa se reutiliza su conexión
+        result = await transaction.execute(query, queryBinds, options);
+      } else {
+        // Obtener conexión del pool
+        connection = await this.getConnection();
+        if (!connection) {
+          throw new Error("No se pudo obtener conexión del pool");
+        }
 
-      // Ejecutar consulta
-      if (!connection) {
-        throw new Error("No se pudo obtener conexión del pool");
+        result = await connection.execute(query, queryBinds, options) as QueryResult;
       }
 
-      const result = await connection.execute(query, binds, options) as QueryResult;
+      // La paginación con ROWNUM agrega una columna auxiliar que no forma parte del resultado
+      if (paginated) {
+        result.rows?.forEach((row) => delete row[ROWNUM_ALIAS]);
+      }
 
-      // El resultado ya viene con el formato correcto desde Oracle
       return result;
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -246,6 +333,198 @@ export class OracleConnection {
     }
   }
 
+  /**
+   * Ejecuta una consulta y entrega sus filas una a una leyendo un ResultSet del driver en bloques de
+   * fetchArraySize filas, sin cargar el resultado completo en memoria. El ResultSet se cierra y la conexión
+   * se libera al terminar, al abandonar el recorrido (break) o ante un error.
+   */
+  async *stream(
+    statement: string,
+    binds: Record<string, unknown> = {},
+    opts: StreamOptions = {},
+  ): AsyncGenerator<Record<string, unknown>, void, undefined> {
+    if (!statement || typeof statement !== "string") {
+      throw new Error("La consulta SQL es requerida y debe ser una cadena");
+    }
+    const fetchArraySize = opts.fetchArraySize ?? DEFAULT_FETCH_ARRAY_SIZE;
+    if (!Number.isInteger(fetchArraySize) || fetchArraySize <= 0) {
+      throw new Error("fetchArraySize debe ser un entero mayor que 0");
+    }
+
+    let connection: OracleConnectionInstance | null = null;
+    let resultSet: OracleResultSet | null = null;
+    const transaction = this.getCurrentTransaction();
+    const options = { outFormat: this.oracledb.OUT_FORMAT_OBJECT, resultSet: true, fetchArraySize };
+    const driverBinds = this.toDriverBinds(binds);
+
+    try {
+      let result: Record<string, unknown>;
+      if (transaction) {
+        // Dentro de una transacción activa se reutiliza su conexión
+        result = await transaction.execute(statement, driverBinds, options) as Record<string, unknown>;
+      } else {
+        connection = await this.getConnection();
+        result = await connection.execute(statement, driverBinds, options);
+      }
+
+      resultSet = result.resultSet as OracleResultSet;
+      while (true) {
+        const rows = await resultSet.getRows(fetchArraySize);
+        if (rows.length === 0) break;
+        for (const row of rows) {
+          yield row;
+        }
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error("Error leyendo consulta:", errorMessage);
+      console.error("SQL:", statement);
+      console.error("Binds:", JSON.stringify(binds));
+      throw error;
+    } finally {
+      if (resultSet) {
+        try {
+          await resultSet.close();
+        } catch (error) {
+          console.error("Error cerrando ResultSet:", error);
+        }
+      }
+      if (connection) {
+        try {
+          await connection.close();
+        } catch (error) {
+          console.error("Error cerrando conexión:", error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Traduce una BindDefinition (tipo y dirección como texto) a las constantes del driver
+   */
+  private toDriverBindDefinition(definition: BindDefinition): Record<string, unknown> {
+    const [typeName, typeNumber] = DRIVER_BIND_TYPES[definition.type];
+    return {
+      type: this.oracledb[typeName] ?? typeNumber,
+      dir: definition.dir === "OUT"
+        ? this.oracledb.BIND_OUT ?? DRIVER_BIND_OUT
+        : this.oracledb.BIND_IN ?? DRIVER_BIND_IN,
+      ...(definition.maxSize !== undefined ? { maxSize: definition.maxSize } : {}),
+    };
+  }
+
+  /**
+   * Traduce los binds de salida ({ type: "NUMBER", dir: "OUT" }) a las constantes del driver
+   */
+  private toDriverBinds(binds: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(binds).map(([name, value]) => [
+        name,
+        isBindDefinition(value) ? this.toDriverBindDefinition(value) : value,
+      ]),
+    );
+  }
+
+  /**
+   * Ejecuta una sentencia DML una vez por cada conjunto de binds en un único viaje a la base de datos
+   */
+  async executeMany(
+    statement: string,
+    binds: Record<string, unknown>[],
+    opts: ExecuteManyOptions = {},
+  ): Promise<ExecuteManyResult> {
+    if (!statement || typeof statement !== "string") {
+      throw new Error("La consulta SQL es requerida y debe ser una cadena");
+    }
+    if (!Array.isArray(binds) || binds.length === 0) {
+      throw new Error("executeMany requiere al menos un conjunto de binds");
+    }
+
+    let connection: OracleConnectionInstance | null = null;
+    const transaction = this.getCurrentTransaction();
+    const options: Record<string, unknown> = { autoCommit: true, ...opts };
+    if (opts.bindDefs) {
+      options.bindDefs = Object.fromEntries(
+        Object.entries(opts.bindDefs).map(([name, definition]) => [name, this.toDriverBindDefinition(definition)]),
+      );
+    }
+
+    try {
+      // Dentro de una transacción activa se reutiliza su conexión
+      if (transaction) {
+        return await transaction.executeMany(statement, binds, options);
+      }
+
+      connection = await this.getConnection();
+      if (!connection) {
+        throw new Error("No se pudo obtener conexión del pool");
+      }
+
+      return await connection.executeMany(statement, binds, options) as ExecuteManyResult;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error("Error ejecutando lote:", errorMessage);
+      console.error("SQL:", statement);
+      console.error("Filas:", binds.length);
+      throw error;
+    } finally {
+      if (connection) {
+        try {
+          await connection.close();
+        } catch (error) {
+          console.error("Error cerrando conexión:", error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Inicia una transacción manual sobre una conexión dedicada del pool
+   */
+  async begin(): Promise<Transaction> {
+    const connection = await this.getConnection();
+    return new Transaction(connection, this.oracledb.OUT_FORMAT_OBJECT);
+  }
+
+  /**
+   * Ejecuta el callback dentro de una transacción: confirma al terminar y revierte si lanza un error.
+   * Las consultas hechas con execute() durante el callback participan de la misma transacción.
+   */
+  async transaction<T>(callback: (tx: Transaction) => Promise<T>): Promise<T> {
+    // Las transacciones anidadas reutilizan la transacción en curso
+    const current = this.getCurrentTransaction();
+    if (current) {
+      return await callback(current);
+    }
+
+    const tx = await this.begin();
+
+    try {
+      const result = await this.transactionContext.run(tx, () => callback(tx));
+      if (tx.isActive) {
+        await tx.commit();
+      }
+      return result;
+    } catch (error) {
+      if (tx.isActive) {
+        try {
+          await tx.rollback();
+        } catch (rollbackError) {
+          console.error("Error revirtiendo transacción:", rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Obtiene la transacción activa en el contexto actual, si existe
+   */
+  getCurrentTransaction(): Transaction | null {
+    const tx = this.transactionContext.getStore();
+    return tx && tx.isActive ? tx : null;
+  }
+
   /**
    * Prueba la conexión a la base de datos
    */
@@ -310,6 +589,17 @@ export class OracleConnection {
   }
 }
 
+/**
+ * Indica si un valor de bind es una BindDefinition y no un valor de entrada
+ */
+function isBindDefinition(value: unknown): value is BindDefinition {
+  if (typeof value !== "object" || value === null || Object.getPrototypeOf(value) !== Object.prototype) {
+    return false;
+  }
+  const { type, dir } = value as Record<string, unknown>;
+  return typeof type === "string" && Object.hasOwn(DRIVER_BIND_TYPES, type) && (dir === "IN" || dir === "OUT");
+}
+
 // Instancia global para uso simplificado
 let globalConnection: OracleConnection | null = null;
 
@@ -330,6 +620,58 @@ export async function querySQL(sql: string, params: Record<string, unknown> = {}
   return await globalConnection.execute(sql, params, {});
 }
 
+/**
+ * Recorre las filas de una consulta con un ResultSet (ver OracleConnection.stream) usando la conexión global
+ */
+export async function* streamSQL(
+  sql: string,
+  params: Record<string, unknown> = {},
+  options: StreamOptions = {},
+): AsyncGenerator<Record<string, unknown>, void, undefined> {
+  if (!globalConnection) {
+    throw new Error("Pool de conexiones no inicializado. Llama a initializePool() primero.");
+  }
+  yield* globalConnection.stream(sql, params, options);
+}
+
+/**
+ * Ejecuta una sentencia DML masiva (executeMany) usando la conexión global
+ */
+export async function executeManySQL(
+  sql: string,
+  binds: Record<string, unknown>[],
+  options: ExecuteManyOptions = {},
+): Promise<ExecuteManyResult> {
+  if (!globalConnection) {
+    throw new Error("Pool de conexiones no inicializado. Llama a initializePool() primero.");
+  }
+  return await globalConnection.executeMany(sql, binds, options);
+}
+
+/**
+ * Ejecuta el callback dentro de una transacción usando la conexión global
+ */
+export async function withTransaction<T>(callback: (tx: Transaction) => Promise<T>): Promise<T> {
+  if (!globalConnection) {
+    throw new Error("Pool de conexiones no inicializado. Llama a initializePool() primero.");
+  }
+  return await globalConnection.transaction(callback);
+}
+
+/**
+ * Obtiene la transacción activa de la conexión global, si existe
+ */
+export function getCurrentTransaction(): Transaction | null {
+  return globalConnection?.getCurrentTransaction() ?? null;
+}
+
+/**
+ * Dialecto SQL de la conexión global, o el dialecto por defecto si no hay conexión inicializada
+ */
+export function getConnectionDialect(): SqlDialect {
+  return globalConnection?.getDialect() ?? getDefaultDialect();
+}
+
 /**
  * Cierra el pool de conexiones global
  */
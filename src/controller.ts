@@ -2,21 +2,75 @@
  * GenericController - Controlador genérico para operaciones CRUD con Oracle
  */
 
-import { querySQL } from "./connection.ts";
+import {
+  executeManySQL,
+  getConnectionDialect,
+  getCurrentTransaction,
+  querySQL,
+  streamSQL,
+  withTransaction,
+} from "./connection.ts";
 import { MemoryCache } from "./cache.ts";
 import { SqlBuilder } from "./sql-builder.ts";
 import { DataValidator } from "./validator.ts";
 import { EntityConfigManager } from "./entity-config.ts";
+import { DEFAULT_CONFIG } from "./config.ts";
+import {
+  BatchOperationError,
+  ConcurrencyConflictError,
+  DataValidationError,
+  OperationNotAllowedError,
+  OracleLibError,
+  RecordNotFoundError,
+} from "./errors.ts";
 import { StoredProcedureExecutor } from "./stored-procedure.ts";
+import { RelationLoader } from "./relation-loader.ts";
+import { diffRecords, getAuditContext, OracleAuditSink } from "./audit.ts";
+import { EntityExporter } from "./export.ts";
 import type {
+  AggregateOptions,
+  AppConfig,
+  AuditEntry,
+  AuditOperation,
+  AuditSink,
+  BatchOptions,
+  BatchResult,
+  BatchRowError,
+  BindDefinition,
+  CursorPaginatedResponse,
+  CursorSearchOptions,
   EntityConfig,
+  ExecuteManyResult,
+  ExportFormat,
+  ExportOptions,
+  FacetOptions,
+  FacetValue,
+  FilterExpression,
+  HookContext,
+  IterateOptions,
+  LifecycleHook,
+  LifecycleHookName,
   PaginatedResponse,
   QueryResult,
+  RecordId,
   SearchOptions,
+  SqlBatch,
+  SqlQuery,
   StoredProcedureResult,
+  UpsertAction,
+  UpsertManyResult,
+  UpsertOptions,
+  UpsertResult,
+  ValidationError,
   ValidationResult,
+  WriteOptions,
 } from "./types.ts";
 
+// Hooks que ejecuta cada escritura individual
+const CREATE_HOOKS: LifecycleHookName[] = ["beforeValidate", "beforeCreate", "afterCreate"];
+const UPDATE_HOOKS: LifecycleHookName[] = ["beforeValidate", "beforeUpdate", "afterUpdate"];
+const DELETE_HOOKS: LifecycleHookName[] = ["beforeDelete", "afterDelete"];
+
 export class GenericController {
   private entityConfig: EntityConfig;
   private sqlBuilder: SqlBuilder;
@@ -24,6 +78,11 @@ export class GenericController {
   private cache: MemoryCache;
   private configManager: EntityConfigManager;
   private storedProcedureExecutor: StoredProcedureExecutor;
+  private relationLoader: RelationLoader;
+  private relatedEntities: Record<string, EntityConfig> | null = null;
+  private settings: AppConfig["settings"] | null = null;
+  private hooks = new Map<LifecycleHookName, LifecycleHook[]>();
+  private auditSink: AuditSink | null = null;
 
   constructor(
     entityConfig: EntityConfig,
@@ -32,7 +91,7 @@ export class GenericController {
     schema?: string,
   ) {
     this.entityConfig = entityConfig;
-    this.sqlBuilder = new SqlBuilder(entityConfig);
+    this.sqlBuilder = new SqlBuilder(entityConfig, getConnectionDialect);
     this.validator = new DataValidator(entityConfig);
     this.cache = cache || new MemoryCache({
       defaultTTL: 300, // 5 minutos
@@ -41,18 +100,79 @@ export class GenericController {
     });
     this.configManager = configManager || new EntityConfigManager();
     this.storedProcedureExecutor = new StoredProcedureExecutor(schema);
+    this.relationLoader = new RelationLoader(
+      entityConfig,
+      async (entityName) =>
+        this.relatedEntities
+          ? this.relatedEntities[entityName] || null
+          : await this.configManager.getEntityConfig(entityName),
+    );
+  }
+
+  /**
+   * Define las entidades disponibles para las relaciones (por defecto se usan las del EntityConfigManager)
+   */
+  setRelatedEntities(entities: Record<string, EntityConfig>): void {
+    this.relatedEntities = entities;
+  }
+
+  /**
+   * Define los ajustes de la aplicación (maxPageSize, formatos de fecha); por defecto se usan los del
+   * EntityConfigManager
+   */
+  setSettings(settings: AppConfig["settings"]): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Define el destino de la auditoría (por defecto, OracleAuditSink con la tabla de EntityConfig.audit)
+   */
+  setAuditSink(sink: AuditSink): void {
+    this.auditSink = sink;
+  }
+
+  /**
+   * Registra un hook del ciclo de vida; se ejecutan en orden de registro
+   */
+  addHook(name: LifecycleHookName, hook: LifecycleHook): void {
+    this.hooks.set(name, [...(this.hooks.get(name) || []), hook]);
+  }
+
+  /**
+   * Elimina un hook registrado previamente
+   */
+  removeHook(name: LifecycleHookName, hook: LifecycleHook): boolean {
+    const hooks = this.hooks.get(name) || [];
+    const remaining = hooks.filter((registered) => registered !== hook);
+    this.hooks.set(name, remaining);
+    return remaining.length < hooks.length;
   }
 
   /**
-   * Busca registros con paginación y filtros
+   * Busca registros con paginación y filtros; con after/before usa paginación por cursor (keyset)
    */
-  async findAll(options: SearchOptions = {}): Promise<PaginatedResponse> {
+  async findAll(
+    searchOptions: CursorSearchOptions & ({ after: string | null } | { before: string }),
+  ): Promise<CursorPaginatedResponse>;
+  async findAll(searchOptions?: SearchOptions): Promise<PaginatedResponse>;
+  async findAll(
+    searchOptions: SearchOptions | CursorSearchOptions = {},
+  ): Promise<PaginatedResponse | CursorPaginatedResponse> {
+    this.ensureOperationAllowed("read");
+
+    if ("after" in searchOptions || "before" in searchOptions) {
+      return await this.findAllByCursor(searchOptions);
+    }
+
+    // Las relaciones se cargan después, sobre el resultado base (que es el que se guarda en caché)
+    const { include, ...options } = this.applyOperationPolicy(searchOptions);
+    options.fields = this.sqlBuilder.resolveProjection(options.fields, include);
     const cacheKey = `${this.entityConfig.tableName}_findAll_${JSON.stringify(options)}`;
 
     // Verificar caché primero
     const cached = this.cache.get(cacheKey);
     if (cached) {
-      return cached as PaginatedResponse;
+      return await this.prepareResult(cached as PaginatedResponse, include);
     }
 
     try {
@@ -71,6 +191,7 @@ export class GenericController {
       const page = options.page || 1;
       const pageSize = options.pageSize || 10;
       const totalPages = Math.ceil(total / pageSize);
+      const paginated = this.entityConfig.operations?.paginate !== false;
 
       const result: PaginatedResponse = {
         data,
@@ -79,25 +200,248 @@ export class GenericController {
           pageSize,
           total,
           totalPages,
-          hasNext: page < totalPages,
-          hasPrev: page > 1,
+          hasNext: paginated && page < totalPages,
+          hasPrev: paginated && page > 1,
         },
       };
 
       // Guardar en caché
       this.cache.set(cacheKey, result);
 
-      return result;
+      return await this.prepareResult(result, include);
+    } catch (error) {
+      throw this.wrapError("findAll", error);
+    }
+  }
+
+  /**
+   * Página por cursor: una consulta keyset con una fila extra para saber si hay más, y COUNT solo con includeTotal
+   */
+  private async findAllByCursor(searchOptions: CursorSearchOptions): Promise<CursorPaginatedResponse> {
+    const { include, ...options } = this.applyOperationPolicy(searchOptions);
+    options.fields = this.sqlBuilder.resolveProjection(options.fields, include);
+    const cacheKey = `${this.entityConfig.tableName}_findAll_cursor_${JSON.stringify(options)}`;
+
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return await this.prepareResult(cached as CursorPaginatedResponse, include);
+    }
+
+    try {
+      const pageSize = options.pageSize || 10;
+      const backwards = options.before !== undefined;
+      const selectQuery = this.sqlBuilder.buildKeysetQuery(options);
+      const countQuery = options.includeTotal ? this.sqlBuilder.buildCountQuery(options) : null;
+
+      const [dataResult, countResult] = await Promise.all([
+        querySQL(selectQuery.sql, selectQuery.params),
+        countQuery ? querySQL(countQuery.sql, countQuery.params) : null,
+      ]);
+
+      // La fila extra indica que hay más registros en el sentido recorrido
+      const rows = dataResult.rows || [];
+      const hasMore = rows.length > pageSize;
+      const data = rows.slice(0, pageSize);
+      if (backwards) data.reverse();
+
+      const hasNext = backwards ? true : hasMore;
+      const hasPrev = backwards ? hasMore : Boolean(options.after);
+      const cursorFor = (record?: Record<string, unknown>) =>
+        record ? this.sqlBuilder.encodeCursor(record, options.orderBy) : null;
+
+      const result: CursorPaginatedResponse = {
+        data,
+        pagination: {
+          pageSize,
+          nextCursor: hasNext ? cursorFor(data[data.length - 1]) : null,
+          prevCursor: hasPrev ? cursorFor(data[0]) : null,
+          hasNext: hasNext && data.length > 0,
+          hasPrev: hasPrev && data.length > 0,
+          ...(countResult ? { total: (countResult.rows?.[0] as Record<string, unknown>)?.total as number || 0 } : {}),
+        },
+      };
+
+      this.cache.set(cacheKey, result);
+
+      return await this.prepareResult(result, include);
     } catch (error) {
-      throw new Error(`Error en findAll: ${error instanceof Error ? error.message : "Error desconocido"}`);
+      throw this.wrapError("findAll", error);
+    }
+  }
+
+  /**
+   * Recorre todos los registros que cumplen los filtros sin paginación ni caché, leyendo las filas en bloques
+   * (ver OracleConnection.stream); los hooks afterFind se ejecutan sobre cada registro. Con
+   * operations.paginate === false se recorren como máximo maxPageSize registros, igual que en findAll
+   */
+  async *iterate(iterateOptions: IterateOptions = {}): AsyncGenerator<Record<string, unknown>, void, undefined> {
+    this.ensureOperationAllowed("read");
+
+    const { fetchArraySize, ...options } = this.applyOperationPolicy(iterateOptions);
+    yield* this.streamRecords(this.sqlBuilder.buildStreamQuery(options), fetchArraySize);
+  }
+
+  /**
+   * Exporta los registros que cumplen los filtros (con el orden y la proyección de findAll) como CSV, NDJSON
+   * o XLSX; las filas se leen como en iterate() a medida que se consume el stream, que puede usarse como cuerpo
+   * de una respuesta HTTP. La consulta se construye antes de devolver el stream, de modo que las opciones
+   * inválidas lanzan el error aquí y no al leerlo
+   */
+  export(format: ExportFormat, exportOptions: ExportOptions = {}): ReadableStream<Uint8Array> {
+    this.ensureOperationAllowed("read");
+
+    const { delimiter, bom, sheetName, dateFormat, timestampFormat, fetchArraySize, ...options } = this
+      .applyOperationPolicy(exportOptions);
+    const query = this.sqlBuilder.buildStreamQuery(options);
+    const fields = this.sqlBuilder.resolveProjection(options.fields) || Object.keys(this.entityConfig.fields);
+    const settings = this.getSettings();
+    const exporter = new EntityExporter(this.entityConfig, {
+      dateFormat: dateFormat || settings?.dateFormat || DEFAULT_CONFIG.api.dateFormat,
+      timestampFormat: timestampFormat || settings?.timestampFormat || DEFAULT_CONFIG.api.timestampFormat,
+    });
+
+    return exporter.toStream(this.streamRecords(query, fetchArraySize), format, fields, { delimiter, bom, sheetName });
+  }
+
+  /**
+   * Lee las filas de una consulta en bloques y ejecuta los hooks afterFind sobre cada registro
+   */
+  private async *streamRecords(
+    query: SqlQuery,
+    fetchArraySize?: number,
+  ): AsyncGenerator<Record<string, unknown>, void, undefined> {
+    try {
+      for await (const row of streamSQL(query.sql, query.params, { fetchArraySize })) {
+        const { data } = await this.prepareResult({ data: [row] });
+        yield data[0];
+      }
+    } catch (error) {
+      throw this.wrapError("iterate", error);
+    }
+  }
+
+  /**
+   * Calcula métricas agregadas (COUNT, SUM, AVG, MIN, MAX, COUNT DISTINCT), opcionalmente agrupadas
+   */
+  async aggregate(aggregateOptions: AggregateOptions): Promise<Record<string, unknown>[]> {
+    this.ensureOperationAllowed("read");
+
+    const options = this.applyOperationPolicy(aggregateOptions);
+    const cacheKey = `${this.entityConfig.tableName}_aggregate_${JSON.stringify(options)}`;
+
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached as Record<string, unknown>[];
+    }
+
+    try {
+      const query = this.sqlBuilder.buildAggregateQuery(options);
+      const result = await querySQL(query.sql, query.params);
+      const rows = result.rows || [];
+
+      this.cache.set(cacheKey, rows);
+
+      return rows;
+    } catch (error) {
+      throw this.wrapError("aggregate", error);
+    }
+  }
+
+  /**
+   * Valores distintos de cada campo con su número de registros bajo las mismas opciones de búsqueda, hasta
+   * `limit` valores por campo; las condiciones del propio campo (en filters y en where) se ignoran para que
+   * sus demás valores sigan disponibles
+   */
+  async facets(fields: string[], facetOptions: FacetOptions = {}): Promise<Record<string, FacetValue[]>> {
+    this.ensureOperationAllowed("read");
+
+    const { search, searchFields, filters, where, withDeleted, onlyDeleted } = this.applyOperationPolicy(facetOptions);
+    const options = { search, searchFields, filters, where, withDeleted, onlyDeleted };
+    const maxPageSize = this.getMaxPageSize();
+    const limit = Math.min(facetOptions.limit ?? maxPageSize, maxPageSize);
+    const cacheKey = `${this.entityConfig.tableName}_findAll_facets_${JSON.stringify({ fields, ...options, limit })}`;
+
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached as Record<string, FacetValue[]>;
+    }
+
+    try {
+      const queries = fields.map((field) => {
+        const otherFilters = Object.fromEntries(
+          Object.entries(filters || {}).filter(([key]) => !this.isSameField(key, field)),
+        );
+        return this.sqlBuilder.buildAggregateQuery({
+          ...options,
+          filters: otherFilters,
+          where: where && this.withoutFieldConditions(where, field),
+          metrics: { count: { fn: "count" } },
+          groupBy: [field],
+          orderBy: "count",
+          orderDirection: "DESC",
+          limit,
+        });
+      });
+      const results = await Promise.all(queries.map((query) => querySQL(query.sql, query.params)));
+
+      const facets: Record<string, FacetValue[]> = {};
+      fields.forEach((field, index) => {
+        // Las filas usan el nombre configurado del campo, que puede diferir en mayúsculas del pedido
+        const fieldName = Object.keys(this.entityConfig.fields).find((name) =>
+          name.toUpperCase() === field.toUpperCase()
+        )!;
+        const labels = this.entityConfig.fields[fieldName].values || [];
+        facets[field] = (results[index].rows || []).map((row) => {
+          const value = row[fieldName];
+          const label = labels.find((option) => String(option.value) === String(value))?.label;
+          return { value, ...(label !== undefined ? { label } : {}), count: Number(row.count) };
+        });
+      });
+
+      this.cache.set(cacheKey, facets);
+
+      return facets;
+    } catch (error) {
+      throw this.wrapError("facets", error);
     }
   }
 
   /**
    * Busca un registro por ID
    */
-  async findById(id: string | number): Promise<Record<string, unknown> | null> {
-    const cacheKey = `${this.entityConfig.tableName}_findById_${id}`;
+  async findById(
+    id: RecordId,
+    options: Pick<SearchOptions, "include" | "fields" | "withDeleted" | "onlyDeleted"> = {},
+  ): Promise<Record<string, unknown> | null> {
+    this.ensureOperationAllowed("read");
+
+    const { include, fields, ...deletedOptions } = options;
+    const record = await this.loadById(id, {
+      ...deletedOptions,
+      fields: this.sqlBuilder.resolveProjection(fields, include),
+    });
+    if (!record) {
+      return null;
+    }
+
+    try {
+      const { data } = await this.prepareResult({ data: [record] }, include);
+      return data[0];
+    } catch (error) {
+      throw this.wrapError("findById", error);
+    }
+  }
+
+  /**
+   * Carga un registro por ID (usa caché) sin verificar la operación "read"; fields debe venir resuelto
+   */
+  private async loadById(
+    id: RecordId,
+    options: { fields?: string[]; withDeleted?: boolean; onlyDeleted?: boolean } = {},
+  ): Promise<Record<string, unknown> | null> {
+    const scope = options.onlyDeleted ? "_onlyDeleted" : options.withDeleted ? "_withDeleted" : "";
+    const projection = options.fields ? `_fields:${options.fields.join(",")}` : "";
+    const cacheKey = `${this.entityConfig.tableName}_findById_${this.getIdCacheKey(id)}${scope}${projection}`;
 
     // Verificar caché primero
     const cached = this.cache.get(cacheKey);
@@ -106,7 +450,7 @@ export class GenericController {
     }
 
     try {
-      const query = this.sqlBuilder.buildSelectByIdQuery(id);
+      const query = this.sqlBuilder.buildSelectByIdQuery(id, options);
       const result = await querySQL(query.sql, query.params);
 
       const record = result.rows?.[0] || null;
@@ -118,117 +462,432 @@ export class GenericController {
 
       return record;
     } catch (error) {
-      throw new Error(`Error en findById: ${error instanceof Error ? error.message : "Error desconocido"}`);
+      throw this.wrapError("findById", error);
     }
   }
 
   /**
    * Crea un nuevo registro
    */
-  async create(data: Record<string, unknown>): Promise<{ id?: string | number; record: Record<string, unknown> }> {
+  async create(data: Record<string, unknown>): Promise<{ id?: RecordId; record: Record<string, unknown> }> {
     try {
-      // Validar datos
-      const validation = this.validator.validate(data, false);
-      if (!validation.isValid) {
-        throw new Error(`Datos inválidos: ${this.validator.getErrorMessages(validation.errors).join(", ")}`);
+      this.ensureOperationAllowed("create");
+
+      return await this.runWrite(CREATE_HOOKS, async () => {
+        const context: HookContext = { entity: this.entityConfig.tableName, operation: "create", data: { ...data } };
+        await this.runHooks("beforeValidate", context);
+
+        // Validar datos
+        const validation = this.validator.validate(context.data!, false);
+        if (!validation.isValid) {
+          throw new DataValidationError(validation.errors);
+        }
+
+        // Limpiar datos
+        context.data = this.validator.sanitizeData(context.data!);
+        await this.runHooks("beforeCreate", context);
+        const sanitizedData = context.data;
+
+        // Construir consulta de inserción
+        const query = this.sqlBuilder.buildInsertQuery(sanitizedData);
+
+        // Ejecutar inserción
+        let insertResult: QueryResult;
+        let newId: RecordId | undefined;
+
+        if (this.entityConfig.autoIncrement) {
+          // Para auto-increment, usar RETURNING
+          const outBinds = { new_id: { type: "NUMBER", dir: "OUT" } };
+          insertResult = await querySQL(query.sql, { ...query.params, ...outBinds });
+          newId = this.extractId(
+            sanitizedData,
+            (insertResult.outBinds as Record<string, unknown>)?.new_id as string | number,
+          );
+        } else {
+          insertResult = await querySQL(query.sql, query.params);
+          newId = this.extractId(sanitizedData);
+        }
+
+        // Obtener el registro creado
+        const record = newId ? await this.loadById(newId) : null;
+
+        // Limpiar caché relacionado
+        this.invalidateCache();
+
+        context.id = newId;
+        context.record = record;
+        await this.runHooks("afterCreate", context);
+
+        if (newId !== undefined) {
+          await this.recordAudit("create", newId, null, record);
+        }
+
+        return {
+          id: newId || undefined,
+          record: record || {},
+        };
+      });
+    } catch (error) {
+      throw this.wrapError("create", error);
+    }
+  }
+
+  /**
+   * Actualiza un registro existente; con expectedVersion falla con ConcurrencyConflictError si otro cambio
+   * modificó el registro desde que se leyó
+   */
+  async update(
+    id: RecordId,
+    data: Record<string, unknown>,
+    options: WriteOptions = {},
+  ): Promise<Record<string, unknown> | null> {
+    try {
+      this.ensureOperationAllowed("update");
+
+      return await this.runWrite(UPDATE_HOOKS, async () => {
+        // Verificar que el registro existe
+        const existingRecord = await this.loadById(id);
+        if (!existingRecord) {
+          throw new RecordNotFoundError();
+        }
+
+        const context: HookContext = {
+          entity: this.entityConfig.tableName,
+          operation: "update",
+          id,
+          data: { ...data },
+          existing: existingRecord,
+        };
+        await this.runHooks("beforeValidate", context);
+
+        // Validar datos
+        const validation = this.validator.validate(context.data!, true);
+        if (!validation.isValid) {
+          throw new DataValidationError(validation.errors);
+        }
+
+        // Limpiar datos
+        context.data = this.validator.sanitizeData(context.data!);
+        await this.runHooks("beforeUpdate", context);
+
+        // Construir consulta de actualización
+        const query = this.sqlBuilder.buildUpdateQuery(id, context.data, options.expectedVersion);
+
+        // Ejecutar actualización
+        const result = await querySQL(query.sql, query.params);
+        await this.ensureVersionMatched(result, id, options.expectedVersion);
+
+        // Limpiar caché relacionado antes de releer el registro
+        this.invalidateCache();
+
+        // Obtener el registro actualizado
+        const updatedRecord = await this.loadById(id);
+
+        context.record = updatedRecord;
+        await this.runHooks("afterUpdate", context);
+
+        await this.recordAudit("update", id, existingRecord, updatedRecord);
+
+        return updatedRecord;
+      });
+    } catch (error) {
+      throw this.wrapError("update", error);
+    }
+  }
+
+  /**
+   * Elimina un registro (con borrado lógico configurado, lo marca como borrado)
+   */
+  async delete(id: RecordId, options: WriteOptions = {}): Promise<boolean> {
+    try {
+      return await this.removeRecord(id, !this.entityConfig.softDelete, options.expectedVersion);
+    } catch (error) {
+      throw this.wrapError("delete", error);
+    }
+  }
+
+  /**
+   * Elimina físicamente un registro, aunque la entidad use borrado lógico o el registro ya esté borrado
+   */
+  async forceDelete(id: RecordId, options: WriteOptions = {}): Promise<boolean> {
+    try {
+      return await this.removeRecord(id, true, options.expectedVersion);
+    } catch (error) {
+      throw this.wrapError("forceDelete", error);
+    }
+  }
+
+  /**
+   * Restaura un registro con borrado lógico
+   */
+  async restore(id: RecordId): Promise<Record<string, unknown> | null> {
+    try {
+      this.ensureOperationAllowed("update");
+      if (!this.entityConfig.softDelete) {
+        throw new OperationNotAllowedError(this.entityConfig.tableName, "restore");
       }
 
-      // Limpiar datos
-      const sanitizedData = this.validator.sanitizeData(data);
+      return await this.runWrite([], async () => {
+        const deletedRecord = await this.loadById(id, { onlyDeleted: true });
+        if (!deletedRecord) {
+          throw new RecordNotFoundError();
+        }
 
-      // Construir consulta de inserción
-      const query = this.sqlBuilder.buildInsertQuery(sanitizedData);
+        const query = this.sqlBuilder.buildRestoreQuery(id);
+        await querySQL(query.sql, query.params);
 
-      // Ejecutar inserción
-      let insertResult: QueryResult;
-      let newId: string | number | undefined;
+        this.invalidateCache();
 
-      if (this.entityConfig.autoIncrement) {
-        // Para auto-increment, usar RETURNING
-        const outBinds = { new_id: { type: "NUMBER", dir: "OUT" } };
-        insertResult = await querySQL(query.sql, { ...query.params, ...outBinds });
-        newId = (insertResult.outBinds as Record<string, unknown>)?.new_id as string | number;
-      } else {
-        insertResult = await querySQL(query.sql, query.params);
-        newId = sanitizedData[this.entityConfig.primaryKey] as string | number;
+        const restoredRecord = await this.loadById(id);
+        await this.recordAudit("update", id, deletedRecord, restoredRecord);
+
+        return restoredRecord;
+      });
+    } catch (error) {
+      throw this.wrapError("restore", error);
+    }
+  }
+
+  /**
+   * Crea varios registros con una única sentencia INSERT (executeMany); con hooks de creación o auditoría,
+   * fila a fila con create() en una única transacción
+   */
+  async createMany(rows: Record<string, unknown>[], options: BatchOptions = {}): Promise<BatchResult> {
+    try {
+      this.ensureOperationAllowed("create");
+
+      if (this.requiresRowByRow(CREATE_HOOKS)) {
+        const ids: Array<RecordId | null> = rows.map(() => null);
+        const errors = await this.runRowByRow(rows.length, options, async (index) => {
+          ids[index] = (await this.create(rows[index])).id ?? null;
+        });
+        return { rowsAffected: rows.length - errors.length, ids, errors };
       }
 
-      // Obtener el registro creado
-      const record = newId ? await this.findById(newId) : null;
+      // Validar todas las filas antes de ejecutar
+      const rowErrors: BatchRowError[] = [];
+      const indexes: number[] = [];
+      const sanitizedRows: Record<string, unknown>[] = [];
+      rows.forEach((row, index) => {
+        const validation = this.validator.validate(row, false);
+        if (!validation.isValid) {
+          rowErrors.push(this.toRowError(index, validation.errors));
+          return;
+        }
+        indexes.push(index);
+        sanitizedRows.push(this.validator.sanitizeData(row));
+      });
+      this.ensureBatchCanContinue(rowErrors, options);
 
-      // Limpiar caché relacionado
-      this.invalidateCache();
+      const ids: Array<RecordId | null> = rows.map(() => null);
+      if (sanitizedRows.length === 0) {
+        return { rowsAffected: 0, ids, errors: rowErrors };
+      }
 
-      return {
-        id: newId || undefined,
-        record: record || {},
-      };
+      const batch = this.sqlBuilder.buildInsertManyQuery(sanitizedRows);
+      const { result, errors } = await this.executeBatch(batch, indexes, rowErrors, options);
+
+      // IDs generados (RETURNING ... INTO) o tomados de los datos, alineados con la entrada
+      const failed = new Set(errors.map((error) => error.index));
+      indexes.forEach((index, batchIndex) => {
+        if (failed.has(index)) return;
+        const generatedId = this.entityConfig.autoIncrement
+          ? (result.outBinds?.[batchIndex]?.new_id as Array<string | number> | undefined)?.[0]
+          : undefined;
+        ids[index] = this.extractId(sanitizedRows[batchIndex], generatedId) ?? null;
+      });
+
+      return { rowsAffected: result.rowsAffected || 0, ids, errors };
     } catch (error) {
-      throw new Error(`Error en create: ${error instanceof Error ? error.message : "Error desconocido"}`);
+      throw this.wrapError("createMany", error);
     }
   }
 
   /**
-   * Actualiza un registro existente
+   * Actualiza varios registros con una única sentencia UPDATE (executeMany); todas las filas deben modificar
+   * los mismos campos. Con hooks de actualización o auditoría, fila a fila con update() en una única transacción
    */
-  async update(id: string | number, data: Record<string, unknown>): Promise<Record<string, unknown> | null> {
+  async updateMany(
+    changes: Array<{ id: RecordId; data: Record<string, unknown> }>,
+    options: BatchOptions = {},
+  ): Promise<BatchResult> {
     try {
-      // Verificar que el registro existe
-      const existingRecord = await this.findById(id);
-      if (!existingRecord) {
-        throw new Error("Registro no encontrado");
+      this.ensureOperationAllowed("update");
+
+      if (this.requiresRowByRow(UPDATE_HOOKS)) {
+        const errors = await this.runRowByRow(changes.length, options, async (index) => {
+          await this.update(changes[index].id, changes[index].data);
+        });
+        return { rowsAffected: changes.length - errors.length, errors };
       }
 
-      // Validar datos
-      const validation = this.validator.validate(data, true);
-      if (!validation.isValid) {
-        throw new Error(`Datos inválidos: ${this.validator.getErrorMessages(validation.errors).join(", ")}`);
+      // Validar todas las filas antes de ejecutar
+      const rowErrors: BatchRowError[] = [];
+      const indexes: number[] = [];
+      const sanitizedRows: Array<{ id: RecordId; data: Record<string, unknown> }> = [];
+      changes.forEach((change, index) => {
+        const validation = this.validator.validate(change.data, true);
+        if (!validation.isValid) {
+          rowErrors.push(this.toRowError(index, validation.errors));
+          return;
+        }
+        indexes.push(index);
+        sanitizedRows.push({ id: change.id, data: this.validator.sanitizeData(change.data) });
+      });
+
+      // Una sola sentencia: las filas deben incluir todos los campos actualizados
+      this.removeIncompleteRows(
+        sanitizedRows,
+        indexes,
+        rowErrors,
+        (row) => row.data,
+        this.sqlBuilder.getPrimaryKeyFields(),
+      );
+      this.ensureBatchCanContinue(rowErrors, options);
+
+      if (sanitizedRows.length === 0) {
+        return { rowsAffected: 0, errors: rowErrors };
       }
 
-      // Limpiar datos
-      const sanitizedData = this.validator.sanitizeData(data);
+      const batch = this.sqlBuilder.buildUpdateManyQuery(sanitizedRows);
+      const { result, errors } = await this.executeBatch(batch, indexes, rowErrors, options, {
+        requireExistingRows: true,
+      });
 
-      // Construir consulta de actualización
-      const query = this.sqlBuilder.buildUpdateQuery(id, sanitizedData);
+      return { rowsAffected: result.rowsAffected || 0, errors };
+    } catch (error) {
+      throw this.wrapError("updateMany", error);
+    }
+  }
 
-      // Ejecutar actualización
-      await querySQL(query.sql, query.params);
+  /**
+   * Elimina varios registros con una única sentencia DELETE (executeMany); con hooks de borrado o auditoría,
+   * fila a fila con delete() en una única transacción
+   */
+  async deleteMany(ids: RecordId[], options: BatchOptions = {}): Promise<BatchResult> {
+    try {
+      this.ensureOperationAllowed("delete");
 
-      // Obtener el registro actualizado
-      const updatedRecord = await this.findById(id);
+      if (ids.length === 0) {
+        return { rowsAffected: 0, errors: [] };
+      }
 
-      // Limpiar caché relacionado
-      this.invalidateCache();
+      if (this.requiresRowByRow(DELETE_HOOKS)) {
+        const errors = await this.runRowByRow(ids.length, options, async (index) => {
+          if (!await this.delete(ids[index])) {
+            throw new RecordNotFoundError();
+          }
+        });
+        return { rowsAffected: ids.length - errors.length, errors };
+      }
 
-      return updatedRecord;
+      const batch = this.entityConfig.softDelete
+        ? this.sqlBuilder.buildSoftDeleteManyQuery(ids)
+        : this.sqlBuilder.buildDeleteManyQuery(ids);
+      const { result, errors } = await this.executeBatch(batch, ids.map((_, index) => index), [], options, {
+        requireExistingRows: true,
+      });
+
+      return { rowsAffected: result.rowsAffected || 0, errors };
     } catch (error) {
-      throw new Error(`Error en update: ${error instanceof Error ? error.message : "Error desconocido"}`);
+      throw this.wrapError("deleteMany", error);
     }
   }
 
   /**
-   * Elimina un registro
+   * Inserta o actualiza un registro con un único MERGE según los campos de coincidencia; con auto-increment,
+   * el ID devuelto es el de la fila escrita (generado si se insertó)
    */
-  async delete(id: string | number): Promise<boolean> {
+  async upsert(data: Record<string, unknown>, options: Pick<UpsertOptions, "matchOn"> = {}): Promise<UpsertResult> {
     try {
-      // Verificar que el registro existe
-      const existingRecord = await this.findById(id);
-      if (!existingRecord) {
-        throw new Error("Registro no encontrado");
+      this.ensureOperationAllowed("create");
+      this.ensureOperationAllowed("update");
+      this.ensureUpsertWithoutHooks();
+
+      // Validar como inserción: el registro puede no existir
+      const validation = this.validator.validate(data, false);
+      if (!validation.isValid) {
+        throw new DataValidationError(validation.errors);
       }
 
-      // Construir consulta de eliminación
-      const query = this.sqlBuilder.buildDeleteQuery(id);
+      const sanitizedData = this.sanitizeForUpsert(data);
+      const query = this.sqlBuilder.buildUpsertQuery(sanitizedData, { matchOn: options.matchOn, reportAction: true });
 
-      // Ejecutar eliminación
-      const result = await querySQL(query.sql, query.params);
+      // :upsert_matched indica si el registro ya existía y :new_id es la clave generada de la fila escrita
+      const outBinds: Record<string, BindDefinition> = { upsert_matched: { type: "NUMBER", dir: "OUT" } };
+      if (this.entityConfig.autoIncrement) {
+        outBinds.new_id = { type: "NUMBER", dir: "OUT" };
+      }
+      const result = await querySQL(query.sql, { ...query.params, ...outBinds });
+      const resultOutBinds = result.outBinds as Record<string, unknown> | undefined;
+      const matched = Number(resultOutBinds?.upsert_matched) > 0;
 
-      // Limpiar caché relacionado
+      // Limpiar caché antes de leer el registro (puede haber una versión anterior en caché)
       this.invalidateCache();
 
-      return (result.rowsAffected || 0) > 0;
+      const id = this.extractId(sanitizedData, resultOutBinds?.new_id as string | number | undefined);
+      const record = id !== undefined ? await this.loadById(id) : null;
+
+      return { action: matched ? "updated" : "inserted", id, record };
+    } catch (error) {
+      throw this.wrapError("upsert", error);
+    }
+  }
+
+  /**
+   * Inserta o actualiza varios registros en una única llamada (executeMany); todas las filas deben incluir
+   * los mismos campos. Con reportAction: false se ejecuta un MERGE sin informar la acción de cada fila, lo
+   * que permite continueOnError (los errores por fila no están disponibles para bloques PL/SQL).
+   */
+  async upsertMany(
+    rows: Record<string, unknown>[],
+    options: BatchOptions & UpsertOptions = {},
+  ): Promise<UpsertManyResult> {
+    try {
+      this.ensureOperationAllowed("create");
+      this.ensureOperationAllowed("update");
+      this.ensureUpsertWithoutHooks();
+
+      const reportAction = options.reportAction !== false;
+      if (reportAction && options.continueOnError) {
+        throw new Error("continueOnError en upsertMany requiere reportAction: false");
+      }
+
+      // Validar todas las filas antes de ejecutar
+      const rowErrors: BatchRowError[] = [];
+      const indexes: number[] = [];
+      const sanitizedRows: Record<string, unknown>[] = [];
+      rows.forEach((row, index) => {
+        const validation = this.validator.validate(row, false);
+        if (!validation.isValid) {
+          rowErrors.push(this.toRowError(index, validation.errors));
+          return;
+        }
+        indexes.push(index);
+        sanitizedRows.push(this.sanitizeForUpsert(row));
+      });
+      this.removeIncompleteRows(sanitizedRows, indexes, rowErrors, (row) => row);
+      this.ensureBatchCanContinue(rowErrors, options);
+
+      const actions: Array<UpsertAction | null> = rows.map(() => null);
+      if (sanitizedRows.length === 0) {
+        return { rowsAffected: 0, actions, errors: rowErrors };
+      }
+
+      const batch = this.sqlBuilder.buildUpsertManyQuery(sanitizedRows, { matchOn: options.matchOn, reportAction });
+      const { result, errors } = await this.executeBatch(batch, indexes, rowErrors, options, {
+        plsql: reportAction,
+      });
+
+      if (reportAction) {
+        indexes.forEach((index, batchIndex) => {
+          actions[index] = Number(result.outBinds?.[batchIndex]?.upsert_matched) > 0 ? "updated" : "inserted";
+        });
+      }
+
+      return { rowsAffected: result.rowsAffected || indexes.length, actions, errors };
     } catch (error) {
-      throw new Error(`Error en delete: ${error instanceof Error ? error.message : "Error desconocido"}`);
+      throw this.wrapError("upsertMany", error);
     }
   }
 
@@ -237,34 +896,71 @@ export class GenericController {
    */
   async executeCustomAction(
     actionName: string,
-    id: string | number,
+    id: RecordId,
     additionalParams: Record<string, unknown> = {},
   ): Promise<Record<string, unknown>> {
     try {
       const actionConfig = this.entityConfig.customActions?.[actionName];
       if (!actionConfig) {
-        throw new Error(`Acción '${actionName}' no encontrada`);
+        throw new RecordNotFoundError(`Acción '${actionName}' no encontrada`);
       }
 
-      const query = this.sqlBuilder.buildCustomActionQuery(
-        actionConfig.sql,
-        id,
-        additionalParams as Record<string, string | number | boolean | null>,
-      );
+      const modifiesData = actionConfig.type !== "read";
+      const audited = modifiesData && this.isAuditEnabled();
 
-      const result = await querySQL(query.sql, query.params);
+      const result = await this.runWrite([], async () => {
+        // Con auditoría, se compara el registro antes y después de la acción
+        const before = audited ? await this.loadById(id) : null;
 
-      // Limpiar caché si la acción podría haber modificado datos
-      if (actionConfig.type !== "read") {
-        this.invalidateCache();
-      }
+        const query = this.sqlBuilder.buildCustomActionQuery(
+          actionConfig.sql,
+          id,
+          additionalParams as Record<string, string | number | boolean | null>,
+        );
+
+        const result = await querySQL(query.sql, query.params);
+
+        // Limpiar caché si la acción podría haber modificado datos
+        if (modifiesData) {
+          this.invalidateCache();
+        }
+
+        if (audited) {
+          await this.recordAudit("action", id, before, await this.loadById(id), actionName);
+        }
+
+        return result;
+      }, audited);
 
       return { result: result.rows || [] };
     } catch (error) {
-      throw new Error(`Error en executeCustomAction: ${error instanceof Error ? error.message : "Error desconocido"}`);
+      throw this.wrapError("executeCustomAction", error);
+    }
+  }
+
+  /**
+   * Obtiene el historial de auditoría de un registro, del más antiguo al más reciente
+   */
+  async getAuditHistory(id: RecordId): Promise<AuditEntry[]> {
+    this.ensureOperationAllowed("read");
+    if (!this.isAuditEnabled()) {
+      throw new OperationNotAllowedError(this.entityConfig.tableName, "audit");
+    }
+
+    try {
+      return await this.getAuditSink().findHistory(this.entityConfig.tableName, this.getAuditRecordId(id));
+    } catch (error) {
+      throw this.wrapError("getAuditHistory", error);
     }
   }
 
+  /**
+   * Versión de un registro leído (compatible con ETag), o null si la entidad no define versionField
+   */
+  getVersion(record: Record<string, unknown>): string | null {
+    return this.sqlBuilder.getVersionToken(record);
+  }
+
   /**
    * Obtiene los campos buscables de la entidad
    */
@@ -298,6 +994,481 @@ export class GenericController {
     return this.validator.validate(data, isUpdate);
   }
 
+  /**
+   * Ejecuta un lote DML dentro de una transacción (la actual o una nueva) y traduce los errores por fila.
+   * Sin continueOnError, cualquier fila con error revierte el lote completo; con requireExistingRows, las filas
+   * que no afectan a ningún registro se reportan como no encontradas. El caché se invalida una sola vez.
+   */
+  private async executeBatch(
+    batch: SqlBatch,
+    indexes: number[],
+    rowErrors: BatchRowError[],
+    options: BatchOptions,
+    mode: { requireExistingRows?: boolean; plsql?: boolean } = {},
+  ): Promise<{ result: ExecuteManyResult; errors: BatchRowError[] }> {
+    const run = async () => {
+      // batchErrors y dmlRowCounts solo están disponibles para sentencias DML (no para bloques PL/SQL)
+      const result = await executeManySQL(batch.sql, batch.binds, {
+        batchErrors: !mode.plsql,
+        bindDefs: batch.bindDefs,
+        dmlRowCounts: !mode.plsql,
+      });
+
+      const errors = [...rowErrors];
+      result.batchErrors?.forEach((error) => {
+        errors.push({ index: indexes[error.offset ?? 0], message: error.message });
+      });
+      // UPDATE/DELETE sin filas afectadas: el registro no existe
+      if (mode.requireExistingRows) {
+        result.dmlRowCounts?.forEach((count, batchIndex) => {
+          const index = indexes[batchIndex];
+          if (count === 0 && !errors.some((error) => error.index === index)) {
+            errors.push({ index, message: "Registro no encontrado" });
+          }
+        });
+      }
+      errors.sort((a, b) => a.index - b.index);
+
+      this.ensureBatchCanContinue(errors, options);
+      return { result, errors };
+    };
+
+    const outcome = await this.runBatchTransaction(run);
+    this.invalidateCache();
+    return outcome;
+  }
+
+  /**
+   * Ejecuta un lote en una transacción nueva o, dentro de una transacción externa, con un savepoint que permite
+   * revertir solo este lote
+   */
+  private async runBatchTransaction<T>(run: () => Promise<T>): Promise<T> {
+    const transaction = getCurrentTransaction();
+    if (!transaction) {
+      return await withTransaction(run);
+    }
+
+    const savepoint = await transaction.createSavepoint("batch_operation");
+    try {
+      return await run();
+    } catch (error) {
+      await transaction.rollbackTo(savepoint);
+      throw error;
+    }
+  }
+
+  /**
+   * Ejecuta una operación masiva fila a fila en una única transacción. Cada escritura individual revierte sus
+   * propios cambios si falla (savepoint de runWrite), así que se procesan todas las filas y, sin
+   * continueOnError, cualquier error revierte el lote completo.
+   */
+  private async runRowByRow(
+    count: number,
+    options: BatchOptions,
+    write: (index: number) => Promise<void>,
+  ): Promise<BatchRowError[]> {
+    return await this.runBatchTransaction(async () => {
+      const errors: BatchRowError[] = [];
+      for (let index = 0; index < count; index++) {
+        try {
+          await write(index);
+        } catch (error) {
+          errors.push(
+            error instanceof DataValidationError
+              ? this.toRowError(index, error.errors)
+              : { index, message: error instanceof Error ? error.message : "Error desconocido" },
+          );
+        }
+      }
+
+      this.ensureBatchCanContinue(errors, options);
+      return errors;
+    });
+  }
+
+  /**
+   * Indica si una operación masiva debe escribir fila a fila para ejecutar los hooks y la auditoría
+   */
+  private requiresRowByRow(hookNames: LifecycleHookName[]): boolean {
+    return this.hasHooks(hookNames) || this.isAuditEnabled();
+  }
+
+  /**
+   * Los upserts deciden en la base de datos si insertan o actualizan, por lo que no pueden ejecutar los hooks
+   * ni la auditoría de cada caso; se rechazan en entidades que los usan
+   */
+  private ensureUpsertWithoutHooks(): void {
+    if (this.requiresRowByRow([...CREATE_HOOKS, ...UPDATE_HOOKS])) {
+      throw new OperationNotAllowedError(this.entityConfig.tableName, "upsert");
+    }
+  }
+
+  /**
+   * Indica si hay hooks registrados para alguno de los nombres indicados
+   */
+  private hasHooks(hookNames: LifecycleHookName[]): boolean {
+    return hookNames.some((name) => (this.hooks.get(name)?.length || 0) > 0);
+  }
+
+  /**
+   * Descarta (como error de fila) las filas a las que les falta algún campo presente en otras,
+   * ya que una única sentencia exige el mismo conjunto de campos en todas
+   */
+  private removeIncompleteRows<T>(
+    rows: T[],
+    indexes: number[],
+    rowErrors: BatchRowError[],
+    getData: (row: T) => Record<string, unknown>,
+    ignoredFields: string[] = [],
+  ): void {
+    const fields = [...new Set(rows.flatMap((row) => Object.keys(getData(row))))]
+      .filter((field) => !ignoredFields.includes(field));
+
+    for (let i = rows.length - 1; i >= 0; i--) {
+      const missing = fields.filter((field) => getData(rows[i])[field] === undefined);
+      if (missing.length > 0) {
+        rowErrors.push({ index: indexes[i], message: `Campos faltantes: ${missing.join(", ")}` });
+        rows.splice(i, 1);
+        indexes.splice(i, 1);
+      }
+    }
+    rowErrors.sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Lanza BatchOperationError si hay filas con error y no se pidió continuar
+   */
+  private ensureBatchCanContinue(rowErrors: BatchRowError[], options: BatchOptions): void {
+    if (rowErrors.length > 0 && !options.continueOnError) {
+      throw new BatchOperationError(rowErrors);
+    }
+  }
+
+  /**
+   * Limpia los datos de un upsert conservando la clave primaria aunque sea auto-increment
+   * (puede ser el campo de coincidencia)
+   */
+  private sanitizeForUpsert(data: Record<string, unknown>): Record<string, unknown> {
+    const sanitizedData = this.validator.sanitizeData(data);
+    this.sqlBuilder.getPrimaryKeyFields().forEach((field) => {
+      if (data[field] !== undefined && sanitizedData[field] === undefined) {
+        sanitizedData[field] = data[field];
+      }
+    });
+    return sanitizedData;
+  }
+
+  /**
+   * Obtiene el ID de un registro a partir de sus datos (y del valor generado por RETURNING, si lo hay);
+   * devuelve undefined si falta algún campo de la clave
+   */
+  private extractId(data: Record<string, unknown>, generatedId?: string | number): RecordId | undefined {
+    const keyFields = this.sqlBuilder.getPrimaryKeyFields();
+    const values: Record<string, string | number> = {};
+
+    for (const field of keyFields) {
+      const value = generatedId !== undefined && field === this.sqlBuilder.getGeneratedKeyField()
+        ? generatedId
+        : data[field];
+      if (value === undefined || value === null || value === "") {
+        return undefined;
+      }
+      values[field] = value as string | number;
+    }
+
+    return keyFields.length === 1 ? values[keyFields[0]] : values;
+  }
+
+  /**
+   * Representación estable de un ID para las claves de caché (campos en el orden de la clave primaria)
+   */
+  private getIdCacheKey(id: RecordId): string {
+    return Object.values(this.sqlBuilder.normalizeId(id)).map((value) => encodeURIComponent(String(value))).join(",");
+  }
+
+  /**
+   * Convierte los errores de validación de una fila en un error de lote
+   */
+  private toRowError(index: number, errors: ValidationError[]): BatchRowError {
+    return { index, message: new DataValidationError(errors).message, errors };
+  }
+
+  /**
+   * Agrega las relaciones pedidas (include) y ejecuta los hooks afterFind sobre copias de los registros,
+   * sin modificar la versión en caché
+   */
+  private async prepareResult<R extends { data: Record<string, unknown>[] }>(
+    result: R,
+    include?: string[],
+  ): Promise<R> {
+    const hasAfterFind = (this.hooks.get("afterFind")?.length || 0) > 0;
+    if (!include?.length && !hasAfterFind) {
+      return result;
+    }
+
+    const data = include?.length
+      ? await this.relationLoader.load(result.data, include)
+      : result.data.map((record) => ({ ...record }));
+
+    await this.runHooks("afterFind", { entity: this.entityConfig.tableName, operation: "find", records: data });
+    return { ...result, data };
+  }
+
+  /**
+   * Ejecuta en orden los hooks registrados; pueden modificar el contexto o lanzar un error para vetar la operación
+   */
+  private async runHooks(name: LifecycleHookName, context: HookContext): Promise<void> {
+    for (const hook of this.hooks.get(name) || []) {
+      await hook(context);
+    }
+  }
+
+  /**
+   * Ejecuta una escritura individual. Si hay hooks registrados para la operación o auditoría, se ejecuta dentro
+   * de una transacción (la actual, con un savepoint, o una nueva) para que un veto o fallo de un hook, o de la
+   * escritura de la auditoría, la revierta
+   */
+  private async runWrite<T>(hookNames: LifecycleHookName[], write: () => Promise<T>, audited = true): Promise<T> {
+    if (!this.hasHooks(hookNames) && !(audited && this.isAuditEnabled())) {
+      return await write();
+    }
+
+    const transaction = getCurrentTransaction();
+    if (!transaction) {
+      return await withTransaction(write);
+    }
+
+    const savepoint = await transaction.createSavepoint("lifecycle_hooks");
+    try {
+      return await write();
+    } catch (error) {
+      await transaction.rollbackTo(savepoint);
+      throw error;
+    }
+  }
+
+  /**
+   * Elimina un registro física o lógicamente, ejecutando los hooks y la auditoría de borrado
+   */
+  private async removeRecord(
+    id: RecordId,
+    physical: boolean,
+    expectedVersion?: string | number,
+  ): Promise<boolean> {
+    this.ensureOperationAllowed("delete");
+
+    return await this.runWrite(DELETE_HOOKS, async () => {
+      // Verificar que el registro existe (el borrado físico alcanza también a los ya borrados lógicamente)
+      const existingRecord = await this.loadById(id, { withDeleted: physical });
+      if (!existingRecord) {
+        throw new RecordNotFoundError();
+      }
+
+      const context: HookContext = {
+        entity: this.entityConfig.tableName,
+        operation: "delete",
+        id,
+        existing: existingRecord,
+      };
+      await this.runHooks("beforeDelete", context);
+
+      // Construir consulta de eliminación
+      const query = physical
+        ? this.sqlBuilder.buildDeleteQuery(id, expectedVersion)
+        : this.sqlBuilder.buildSoftDeleteQuery(id, expectedVersion);
+
+      // Ejecutar eliminación
+      const result = await querySQL(query.sql, query.params);
+      await this.ensureVersionMatched(result, id, expectedVersion, { withDeleted: physical });
+
+      // Limpiar caché relacionado
+      this.invalidateCache();
+
+      await this.runHooks("afterDelete", context);
+
+      const deletedRecord = physical ? null : await this.loadById(id, { withDeleted: true });
+      await this.recordAudit("delete", id, existingRecord, deletedRecord);
+
+      return (result.rowsAffected || 0) > 0;
+    });
+  }
+
+  /**
+   * Con una versión esperada, una escritura sin filas afectadas sobre un registro que sigue existiendo
+   * indica que otra operación lo modificó (se consulta sin caché para obtener la versión actual)
+   */
+  private async ensureVersionMatched(
+    result: QueryResult,
+    id: RecordId,
+    expectedVersion: string | number | undefined,
+    options: Pick<SearchOptions, "withDeleted"> = {},
+  ): Promise<void> {
+    if (expectedVersion === undefined || (result.rowsAffected || 0) > 0) {
+      return;
+    }
+
+    const query = this.sqlBuilder.buildSelectByIdQuery(id, options);
+    const current = (await querySQL(query.sql, query.params)).rows?.[0];
+    if (!current) {
+      throw new RecordNotFoundError();
+    }
+    throw new ConcurrencyConflictError(
+      this.entityConfig.tableName,
+      String(expectedVersion),
+      this.sqlBuilder.getVersionToken(current),
+    );
+  }
+
+  /**
+   * Indica si la entidad tiene la auditoría habilitada en EntityConfig.audit
+   */
+  private isAuditEnabled(): boolean {
+    return this.entityConfig.audit?.enabled === true;
+  }
+
+  /**
+   * Registra un cambio en la auditoría (si está habilitada) con el actor del contexto de la petición
+   */
+  private async recordAudit(
+    operation: AuditOperation,
+    id: RecordId,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+    action?: string,
+  ): Promise<void> {
+    if (!this.isAuditEnabled()) {
+      return;
+    }
+
+    const entry: AuditEntry = {
+      entity: this.entityConfig.tableName,
+      recordId: this.getAuditRecordId(id),
+      operation,
+      ...(action ? { action } : {}),
+      actor: getAuditContext()?.actor ?? null,
+      timestamp: new Date(),
+      changes: diffRecords(before, after, this.entityConfig.audit?.excludeFields),
+    };
+    await this.getAuditSink().write(entry);
+  }
+
+  /**
+   * Obtiene el sink de auditoría (se crea al primer uso)
+   */
+  private getAuditSink(): AuditSink {
+    if (!this.auditSink) {
+      this.auditSink = new OracleAuditSink(this.entityConfig.audit?.table);
+    }
+    return this.auditSink;
+  }
+
+  /**
+   * ID del registro en la auditoría: valores de la clave primaria separados por comas
+   */
+  private getAuditRecordId(id: RecordId): string {
+    return Object.values(this.sqlBuilder.normalizeId(id)).map((value) => String(value)).join(",");
+  }
+
+  /**
+   * Rechaza operaciones deshabilitadas en EntityConfig.operations (si no se declaran, se permiten)
+   */
+  private ensureOperationAllowed(operation: keyof NonNullable<EntityConfig["operations"]>): void {
+    if (this.entityConfig.operations?.[operation] === false) {
+      throw new OperationNotAllowedError(this.entityConfig.tableName, operation);
+    }
+  }
+
+  /**
+   * Ajusta las opciones de búsqueda a las operaciones habilitadas:
+   * sin "search" se ignora el texto buscado y sin "paginate" se devuelve una única página limitada
+   */
+  private applyOperationPolicy<T extends SearchOptions>(options: T): T {
+    const operations = this.entityConfig.operations || {};
+    const effectiveOptions = { ...options };
+
+    if (operations.search === false) {
+      delete effectiveOptions.search;
+      delete effectiveOptions.searchFields;
+    }
+
+    if (operations.paginate === false) {
+      effectiveOptions.page = 1;
+      effectiveOptions.pageSize = this.getMaxPageSize();
+    }
+
+    return effectiveOptions;
+  }
+
+  /**
+   * Tamaño máximo de página configurado
+   */
+  private getMaxPageSize(): number {
+    return this.getSettings()?.maxPageSize || DEFAULT_CONFIG.api.maxPageSize;
+  }
+
+  /**
+   * Ajustes de la aplicación definidos con setSettings o, si no, los del EntityConfigManager
+   */
+  private getSettings(): AppConfig["settings"] | undefined {
+    return this.settings ?? this.configManager.getCurrentConfig()?.settings;
+  }
+
+  /**
+   * Quita de una expresión where las condiciones que afectan a un campo: sus claves en cada nivel AND y los
+   * grupos or/not que lo mencionan, de modo que la expresión resultante nunca es más restrictiva
+   */
+  private withoutFieldConditions(expression: FilterExpression, field: string): FilterExpression {
+    const result: FilterExpression = {};
+    for (const [key, value] of Object.entries(expression)) {
+      if (key === "and") {
+        const children = (value as FilterExpression[])
+          .map((child) => this.withoutFieldConditions(child, field))
+          .filter((child) => Object.keys(child).length > 0);
+        if (children.length > 0) {
+          result.and = children;
+        }
+      } else if (key === "or" || key === "not") {
+        if (!this.mentionsField(value as FilterExpression | FilterExpression[], field)) {
+          Object.assign(result, { [key]: value });
+        }
+      } else if (!this.isSameField(key, field)) {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Indica si una expresión where (o una lista de ellas) tiene alguna condición sobre el campo
+   */
+  private mentionsField(expression: FilterExpression | FilterExpression[], field: string): boolean {
+    if (Array.isArray(expression)) {
+      return expression.some((child) => this.mentionsField(child, field));
+    }
+    return Object.entries(expression).some(([key, value]) =>
+      key === "and" || key === "or" || key === "not"
+        ? this.mentionsField(value as FilterExpression | FilterExpression[], field)
+        : this.isSameField(key, field)
+    );
+  }
+
+  /**
+   * Compara nombres de campo sin distinguir mayúsculas
+   */
+  private isSameField(name: string, field: string): boolean {
+    return name.toUpperCase() === field.toUpperCase();
+  }
+
+  /**
+   * Envuelve un error con el nombre de la operación; los errores tipados de la librería se propagan tal cual
+   */
+  private wrapError(operation: string, error: unknown): Error {
+    if (error instanceof OracleLibError) {
+      return error;
+    }
+    return new Error(`Error en ${operation}: ${error instanceof Error ? error.message : "Error desconocido"}`);
+  }
+
   /**
    * Invalida todo el caché relacionado con esta entidad
    */
@@ -305,11 +1476,15 @@ export class GenericController {
     const patterns = [
       `${this.entityConfig.tableName}_findAll`,
       `${this.entityConfig.tableName}_findById`,
+      `${this.entityConfig.tableName}_aggregate`,
     ];
 
     patterns.forEach((pattern) => {
       this.cache.invalidatePattern(pattern);
     });
+
+    // Dentro de una transacción, invalidar de nuevo al finalizar para descartar lecturas no confirmadas
+    getCurrentTransaction()?.onComplete(() => this.invalidateCache());
   }
 
   /**
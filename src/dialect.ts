@@ -0,0 +1,89 @@
+/**
+ * SqlDialect - Diferencias de SQL entre versiones de Oracle (paginación y funcionalidades disponibles)
+ */
+
+// Versiones de Oracle con SQL distinto: 11g (ROWNUM), 12c+ (OFFSET/FETCH) y 23ai (BOOLEAN, IF EXISTS)
+export type OracleVersion = "11g" | "12c" | "23ai";
+
+// Binds de paginación generados por el dialecto
+export const PAGINATION_BINDS = { offset: "row_offset", limit: "row_limit" } as const;
+
+// Alias de la columna ROWNUM en consultas sin lista de columnas (se elimina de los resultados)
+export const ROWNUM_ALIAS = "__rnum";
+
+export class SqlDialect {
+  readonly version: OracleVersion;
+
+  constructor(version: OracleVersion = "11g") {
+    this.version = version;
+  }
+
+  /**
+   * Obtiene el dialecto a partir del banner de v$version (ej: "Oracle Database 19c ... Release 19.0.0.0.0")
+   */
+  static fromBanner(banner: string): SqlDialect {
+    const match = /Release (\d+)/i.exec(banner) || /Oracle Database (\d+)/i.exec(banner);
+    const major = match ? Number(match[1]) : 0;
+    if (major >= 23) return new SqlDialect("23ai");
+    if (major >= 12) return new SqlDialect("12c");
+    return new SqlDialect("11g");
+  }
+
+  /**
+   * Pagina una consulta ordenada con los binds :row_offset y :row_limit (tamaño de página).
+   * Con ROWNUM, sin lista de columnas se agrega la columna ROWNUM_ALIAS, que el consumidor debe descartar.
+   */
+  paginate(sql: string, columns?: string): string {
+    const { offset, limit } = PAGINATION_BINDS;
+    if (this.version !== "11g") {
+      return `${sql} OFFSET :${offset} ROWS FETCH NEXT :${limit} ROWS ONLY`;
+    }
+
+    const outerColumns = columns || "*";
+    const innerColumns = columns ? `${columns}, ROWNUM "${ROWNUM_ALIAS}"` : `q.*, ROWNUM "${ROWNUM_ALIAS}"`;
+    return `SELECT ${outerColumns} FROM (SELECT ${innerColumns} FROM (${sql}) q WHERE ROWNUM <= :${offset} + :${limit}) ` +
+      `WHERE "${ROWNUM_ALIAS}" > :${offset}`;
+  }
+
+  /**
+   * Limita una consulta ordenada a las primeras :row_limit filas
+   */
+  limit(sql: string, columns?: string): string {
+    if (this.version !== "11g") {
+      return `${sql} FETCH FIRST :${PAGINATION_BINDS.limit} ROWS ONLY`;
+    }
+    return `SELECT ${columns || "*"} FROM (${sql}) WHERE ROWNUM <= :${PAGINATION_BINDS.limit}`;
+  }
+
+  /**
+   * Tipo BOOLEAN en SQL (23ai)
+   */
+  supportsBoolean(): boolean {
+    return this.version === "23ai";
+  }
+
+  /**
+   * DDL con IF EXISTS / IF NOT EXISTS (23ai)
+   */
+  supportsIfExists(): boolean {
+    return this.version === "23ai";
+  }
+}
+
+// Dialecto usado por SqlBuilder cuando no se indica uno: ROWNUM, compatible con todas las versiones,
+// hasta que una conexión configure o detecte la versión del servidor
+let defaultDialect = new SqlDialect();
+
+/**
+ * Obtiene el dialecto por defecto
+ */
+export function getDefaultDialect(): SqlDialect {
+  return defaultDialect;
+}
+
+/**
+ * Define el dialecto por defecto de los SqlBuilder que no reciben uno
+ */
+export function setDefaultDialect(dialect: SqlDialect): void {
+  defaultDialect = dialect;
+}
@@ -2,6 +2,9 @@
  * EntityConfigManager - Carga y gestiona la configuración de entidades desde JSON
  */
 
+import { DEFAULT_CONFIG } from "./config.ts";
+import { type IntrospectionOptions, SchemaIntrospector } from "./introspection.ts";
+import { SqlBuilder } from "./sql-builder.ts";
 import type { AppConfig, EntityConfig } from "./types.ts";
 
 export class EntityConfigManager {
@@ -86,7 +89,7 @@ export class EntityConfigManager {
       throw new Error(`Entidad '${entityName}': tableName es requerido`);
     }
 
-    if (!config.primaryKey) {
+    if (!config.primaryKey || (Array.isArray(config.primaryKey) && config.primaryKey.length === 0)) {
       throw new Error(`Entidad '${entityName}': primaryKey es requerido`);
     }
 
@@ -94,16 +97,66 @@ export class EntityConfigManager {
       throw new Error(`Entidad '${entityName}': fields es requerido`);
     }
 
-    // Verificar que la clave primaria existe en los campos
-    if (!config.fields[config.primaryKey]) {
-      throw new Error(`Entidad '${entityName}': el campo primaryKey '${config.primaryKey}' no existe en fields`);
+    const keyFields = SqlBuilder.getPrimaryKeyFields(config);
+    if (new Set(keyFields).size !== keyFields.length) {
+      throw new Error(`Entidad '${entityName}': primaryKey tiene campos repetidos`);
     }
 
-    // Validar que la clave primaria esté marcada como tal
-    if (!config.fields[config.primaryKey].primaryKey) {
-      throw new Error(
-        `Entidad '${entityName}': el campo primaryKey '${config.primaryKey}' debe tener primaryKey: true`,
-      );
+    keyFields.forEach((keyField) => {
+      // Verificar que cada campo de la clave primaria existe en los campos
+      if (!config.fields[keyField]) {
+        throw new Error(`Entidad '${entityName}': el campo primaryKey '${keyField}' no existe en fields`);
+      }
+
+      // Validar que cada campo de la clave primaria esté marcado como tal
+      if (!config.fields[keyField].primaryKey) {
+        throw new Error(
+          `Entidad '${entityName}': el campo primaryKey '${keyField}' debe tener primaryKey: true`,
+        );
+      }
+    });
+
+    // Validar borrado lógico
+    if (config.softDelete) {
+      if (!config.fields[config.softDelete.field]) {
+        throw new Error(
+          `Entidad '${entityName}': el campo softDelete '${config.softDelete.field}' no existe en fields`,
+        );
+      }
+      if (config.softDelete.deletedValue === undefined && (config.softDelete.activeValue ?? null) !== null) {
+        throw new Error(`Entidad '${entityName}': softDelete con activeValue requiere deletedValue`);
+      }
+    }
+
+    // Validar proyecciones (listas de campos con nombre)
+    Object.entries(config.projections || {}).forEach(([projectionName, fields]) => {
+      const unknownField = fields.find((field) => !config.fields[field]);
+      if (unknownField) {
+        throw new Error(
+          `Entidad '${entityName}': la proyección '${projectionName}' usa el campo '${unknownField}' que no existe en fields`,
+        );
+      }
+    });
+
+    // Validar estrategia de búsqueda de texto
+    if (config.textSearch) {
+      if (!["like", "contains", "fuzzy"].includes(config.textSearch.strategy)) {
+        throw new Error(`Entidad '${entityName}': textSearch.strategy no soportada '${config.textSearch.strategy}'`);
+      }
+      const threshold = config.textSearch.fuzzyThreshold;
+      if (threshold !== undefined && !(threshold >= 0 && threshold <= 100)) {
+        throw new Error(`Entidad '${entityName}': textSearch.fuzzyThreshold debe estar entre 0 y 100`);
+      }
+    }
+
+    // Validar campo de versión (bloqueo optimista)
+    if (config.versionField && config.versionField.toUpperCase() !== "ORA_ROWSCN") {
+      const versionType = config.fields[config.versionField]?.type.toLowerCase();
+      if (!["number", "integer", "timestamp", "date"].includes(versionType)) {
+        throw new Error(
+          `Entidad '${entityName}': versionField '${config.versionField}' debe ser un campo numérico, timestamp o date`,
+        );
+      }
     }
 
     // Validar operaciones
@@ -156,6 +209,82 @@ export class EntityConfigManager {
       .map(([fieldName, _]) => fieldName);
   }
 
+  /**
+   * Genera configuraciones de entidades leyendo el diccionario de datos de Oracle.
+   * Con `write: true` las combina con el archivo de configuración sin pisar ajustes manuales.
+   */
+  async introspect(options: IntrospectionOptions = {}): Promise<Record<string, EntityConfig>> {
+    const entities = await new SchemaIntrospector().introspect(options);
+
+    if (options.write) {
+      await this.saveEntities(entities);
+    }
+
+    return entities;
+  }
+
+  /**
+   * Combina entidades generadas con el archivo de configuración y lo guarda.
+   * Los valores ya presentes en el archivo tienen prioridad sobre los generados.
+   */
+  async saveEntities(entities: Record<string, EntityConfig>): Promise<AppConfig> {
+    const denoGlobal = globalThis as unknown as { Deno: typeof Deno };
+    let current: AppConfig;
+
+    try {
+      current = JSON.parse(await denoGlobal.Deno.readTextFile(this.configPath)) as AppConfig;
+    } catch (error) {
+      if (!(error instanceof denoGlobal.Deno.errors.NotFound)) {
+        const errorMessage = error instanceof Error ? error.message : "Error desconocido";
+        throw new Error(`Error cargando configuración: ${errorMessage}`);
+      }
+      current = {
+        entities: {},
+        settings: {
+          defaultPageSize: DEFAULT_CONFIG.api.defaultPageSize,
+          maxPageSize: DEFAULT_CONFIG.api.maxPageSize,
+          dateFormat: DEFAULT_CONFIG.api.dateFormat,
+          timestampFormat: DEFAULT_CONFIG.api.timestampFormat,
+          errorMessages: {},
+          features: {},
+        },
+      };
+    }
+
+    const merged: AppConfig = { ...current, entities: { ...current.entities } };
+    for (const [entityName, generated] of Object.entries(entities)) {
+      merged.entities[entityName] = EntityConfigManager.mergeEntityConfig(current.entities?.[entityName], generated);
+    }
+
+    this.config = merged;
+    this.validateConfig();
+
+    await denoGlobal.Deno.writeTextFile(this.configPath, JSON.stringify(merged, null, 2) + "\n");
+    return merged;
+  }
+
+  /**
+   * Combina una entidad existente con una generada: los valores existentes tienen prioridad,
+   * los campos nuevos se agregan y los campos definidos solo a mano se conservan
+   */
+  static mergeEntityConfig(existing: EntityConfig | undefined, generated: EntityConfig): EntityConfig {
+    if (!existing) {
+      return generated;
+    }
+
+    const fields: EntityConfig["fields"] = {};
+    for (const [fieldName, fieldConfig] of Object.entries(generated.fields)) {
+      fields[fieldName] = { ...fieldConfig, ...existing.fields?.[fieldName] };
+    }
+    for (const [fieldName, fieldConfig] of Object.entries(existing.fields || {})) {
+      if (!fields[fieldName]) {
+        fields[fieldName] = fieldConfig;
+      }
+    }
+
+    return { ...generated, ...existing, fields };
+  }
+
   /**
    * Establece una configuración manualmente (útil para testing)
    */
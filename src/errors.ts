@@ -0,0 +1,111 @@
+/**
+ * Errores tipados de la librería Deno Oracle
+ */
+
+import type { BatchRowError, ValidationError } from "./types.ts";
+
+/**
+ * Error base de la librería; el controlador lo propaga sin envolverlo
+ */
+export class OracleLibError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Identificador (columna, orden o dirección) no permitido por la configuración de la entidad
+ */
+export class InvalidIdentifierError extends OracleLibError {
+  readonly identifier: string;
+  readonly context: string;
+
+  constructor(identifier: string, context: string, message?: string) {
+    super(message || `Identificador no permitido en ${context}: '${identifier}'`);
+    this.identifier = identifier;
+    this.context = context;
+  }
+}
+
+/**
+ * Datos rechazados por el validador de la entidad
+ */
+export class DataValidationError extends OracleLibError {
+  readonly errors: ValidationError[];
+
+  constructor(errors: ValidationError[]) {
+    super(`Datos inválidos: ${errors.map((error) => error.message).join(", ")}`);
+    this.errors = errors;
+  }
+}
+
+/**
+ * Registro (o acción) inexistente
+ */
+export class RecordNotFoundError extends OracleLibError {
+  constructor(message = "Registro no encontrado") {
+    super(message);
+  }
+}
+
+/**
+ * Operación deshabilitada en EntityConfig.operations
+ */
+export class OperationNotAllowedError extends OracleLibError {
+  readonly entity: string;
+  readonly operation: string;
+
+  constructor(entity: string, operation: string) {
+    super(`Operación '${operation}' no permitida para la entidad '${entity}'`);
+    this.entity = entity;
+    this.operation = operation;
+  }
+}
+
+/**
+ * Bloqueo optimista: el registro cambió (o no tiene la versión esperada) desde que se leyó
+ */
+export class ConcurrencyConflictError extends OracleLibError {
+  readonly entity: string;
+  readonly expectedVersion: string;
+  readonly currentVersion: string | null;
+
+  constructor(entity: string, expectedVersion: string, currentVersion: string | null = null) {
+    super(
+      `El registro de '${entity}' fue modificado por otra operación ` +
+        `(versión esperada: ${expectedVersion}, actual: ${currentVersion ?? "desconocida"})`,
+    );
+    this.entity = entity;
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
+
+/**
+ * Operación masiva rechazada: contiene los errores de cada fila afectada
+ */
+export class BatchOperationError extends OracleLibError {
+  readonly rowErrors: BatchRowError[];
+
+  constructor(rowErrors: BatchRowError[]) {
+    super(
+      `Operación masiva con errores en ${rowErrors.length} fila(s): ${
+        rowErrors.map((error) => `[${error.index}] ${error.message}`).join("; ")
+      }`,
+    );
+    this.rowErrors = rowErrors;
+  }
+}
+
+/**
+ * Operación vetada por un hook del ciclo de vida
+ */
+export class HookVetoError extends OracleLibError {
+  readonly hook: string;
+
+  constructor(hook: string, message?: string) {
+    super(message || `Operación rechazada por el hook '${hook}'`);
+    this.hook = hook;
+  }
+}
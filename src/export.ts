@@ -0,0 +1,423 @@
+/**
+ * EntityExporter - Exportación de registros de una entidad a CSV, NDJSON o XLSX como stream de bytes
+ */
+
+import type { EntityConfig, ExportFormat } from "./types.ts";
+
+// Tipo de contenido de cada formato (cabecera Content-Type de la respuesta HTTP)
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Formatos de fecha de AppConfig.settings (YYYY, MM, DD, HH24, HH, MI, SS)
+export interface ExportDateFormats {
+  dateFormat: string;
+  timestampFormat: string;
+}
+
+// Opciones de escritura: delimitador y BOM de CSV, nombre de la hoja de XLSX
+export interface ExportWriteOptions {
+  delimiter?: string;
+  bom?: boolean;
+  sheetName?: string;
+}
+
+// Columna exportada: campo, encabezado y valor ya formateado de cada registro
+interface ExportColumn {
+  field: string;
+  header: string;
+  format: (value: unknown) => string | number | boolean | null;
+}
+
+// Caracteres de control permitidos en XML 1.0 (tabulador, salto de línea y retorno de carro)
+const XML_ALLOWED_CONTROL_CHARS = new Set([0x09, 0x0A, 0x0D]);
+
+// Caracteres iniciales que las hojas de cálculo interpretan como fórmula
+const FORMULA_PREFIXES = ["=", "+", "-", "@"];
+
+// Tamaño máximo de un ZIP sin ZIP64 (tamaños y desplazamientos de 32 bits)
+const ZIP32_LIMIT = 0xFFFFFFFF;
+
+const DATE_TOKEN_REGEX = /YYYY|HH24|HH|MI|SS|MM|DD/g;
+
+export class EntityExporter {
+  private entityConfig: EntityConfig;
+  private dateFormats: ExportDateFormats;
+
+  constructor(entityConfig: EntityConfig, dateFormats: ExportDateFormats) {
+    this.entityConfig = entityConfig;
+    this.dateFormats = dateFormats;
+  }
+
+  /**
+   * Convierte los registros en un stream del formato pedido. Los registros se leen a medida que se consume el
+   * stream; si se cancela (por ejemplo, el cliente HTTP se desconecta) se cierra el iterador de origen.
+   */
+  toStream(
+    records: AsyncIterable<Record<string, unknown>>,
+    format: ExportFormat,
+    fields: string[],
+    options: ExportWriteOptions = {},
+  ): ReadableStream<Uint8Array> {
+    if (!Object.prototype.hasOwnProperty.call(EXPORT_CONTENT_TYPES, format)) {
+      throw new Error(`Formato de exportación no soportado: '${format}'`);
+    }
+    const delimiter = options.delimiter ?? ",";
+    if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+      throw new Error("El delimitador CSV debe ser un único carácter distinto de comillas y saltos de línea");
+    }
+
+    const columns = fields.map((field) => this.getColumn(field));
+    const chunks = format === "csv"
+      ? this.writeCsv(records, columns, delimiter, options.bom === true)
+      : format === "ndjson"
+      ? this.writeNdjson(records, fields)
+      : this.writeXlsx(records, columns, options);
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await chunks.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await chunks.return();
+      },
+    });
+  }
+
+  /**
+   * CSV según RFC 4180: encabezados con displayName, CRLF y comillas en los valores que lo requieren; los textos
+   * que empiezan como una fórmula se neutralizan (en XLSX las celdas de texto nunca se evalúan)
+   */
+  private async *writeCsv(
+    records: AsyncIterable<Record<string, unknown>>,
+    columns: ExportColumn[],
+    delimiter: string,
+    bom: boolean,
+  ): AsyncGenerator<Uint8Array, void, undefined> {
+    const encoder = new TextEncoder();
+    const quote = (value: string | number | boolean | null) => {
+      const text = value === null ? "" : String(value);
+      return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const line = (values: Array<string | number | boolean | null>) =>
+      encoder.encode(`${values.map(quote).join(delimiter)}\r\n`);
+
+    if (bom) {
+      yield new Uint8Array([0xEF, 0xBB, 0xBF]);
+    }
+    yield line(columns.map((column) => column.header));
+    for await (const record of records) {
+      yield line(columns.map((column) => {
+        const value = column.format(record[column.field]);
+        return typeof value === "string" ? neutralizeFormula(value) : value;
+      }));
+    }
+  }
+
+  /**
+   * NDJSON: un objeto JSON por línea con los nombres de los campos y los valores sin formatear
+   */
+  private async *writeNdjson(
+    records: AsyncIterable<Record<string, unknown>>,
+    fields: string[],
+  ): AsyncGenerator<Uint8Array, void, undefined> {
+    const encoder = new TextEncoder();
+    for await (const record of records) {
+      const values = Object.fromEntries(fields.map((field) => [field, record[field] ?? null]));
+      yield encoder.encode(`${JSON.stringify(values)}\n`);
+    }
+  }
+
+  /**
+   * XLSX con una hoja: los archivos del libro se escriben en un ZIP sin compresión y la hoja se genera fila a
+   * fila (números como celdas numéricas, el resto como texto)
+   */
+  private async *writeXlsx(
+    records: AsyncIterable<Record<string, unknown>>,
+    columns: ExportColumn[],
+    options: ExportWriteOptions,
+  ): AsyncGenerator<Uint8Array, void, undefined> {
+    const sheetName = escapeXml((options.sheetName || this.entityConfig.displayName || "Datos").slice(0, 31));
+    const zip = new ZipWriter();
+    const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+    const mainNs = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+    const relNs = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+    const packageRelNs = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+    yield* zip.addFile(
+      "[Content_Types].xml",
+      single(
+        `${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+          `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+          `<Default Extension="xml" ContentType="application/xml"/>` +
+          `<Override PartName="/xl/workbook.xml" ` +
+          `ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+          `<Override PartName="/xl/worksheets/sheet1.xml" ` +
+          `ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+      ),
+    );
+    yield* zip.addFile(
+      "_rels/.rels",
+      single(
+        `${xml}<Relationships xmlns="${packageRelNs}"><Relationship Id="rId1" ` +
+          `Type="${relNs}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+      ),
+    );
+    yield* zip.addFile(
+      "xl/workbook.xml",
+      single(
+        `${xml}<workbook xmlns="${mainNs}" xmlns:r="${relNs}">` +
+          `<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+      ),
+    );
+    yield* zip.addFile(
+      "xl/_rels/workbook.xml.rels",
+      single(
+        `${xml}<Relationships xmlns="${packageRelNs}"><Relationship Id="rId1" ` +
+          `Type="${relNs}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+      ),
+    );
+    yield* zip.addFile(
+      "xl/worksheets/sheet1.xml",
+      this.writeSheet(records, columns, `${xml}<worksheet xmlns="${mainNs}">`),
+    );
+    yield zip.finish();
+  }
+
+  /**
+   * Filas de la hoja XLSX, empezando por los encabezados
+   */
+  private async *writeSheet(
+    records: AsyncIterable<Record<string, unknown>>,
+    columns: ExportColumn[],
+    header: string,
+  ): AsyncGenerator<string, void, undefined> {
+    const row = (index: number, values: Array<string | number | boolean | null>) => {
+      const cells = values.map((value, column) => {
+        const ref = `${columnName(column)}${index}`;
+        if (value === null || value === "") return "";
+        if (typeof value === "number" && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+        return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+      });
+      return `<row r="${index}">${cells.join("")}</row>`;
+    };
+
+    yield `${header}<sheetData>${row(1, columns.map((column) => column.header))}`;
+    let index = 1;
+    for await (const record of records) {
+      index++;
+      yield row(index, columns.map((column) => column.format(record[column.field])));
+    }
+    yield "</sheetData></worksheet>";
+  }
+
+  /**
+   * Encabezado y formateo de un campo: etiqueta de FieldConfig.values y fechas según los formatos configurados
+   */
+  private getColumn(field: string): ExportColumn {
+    const fieldConfig = this.entityConfig.fields[field];
+    const type = fieldConfig?.type.toLowerCase();
+    const labels = fieldConfig?.values || [];
+    const dateFormat = type === "date" ? this.dateFormats.dateFormat : this.dateFormats.timestampFormat;
+
+    return {
+      field,
+      header: fieldConfig?.displayName || field,
+      format: (value) => {
+        if (value === null || value === undefined) return null;
+        const label = labels.find((option) => String(option.value) === String(value))?.label;
+        if (label !== undefined) return label;
+        if (value instanceof Date) return formatDate(value, dateFormat);
+        if (typeof value === "number" || typeof value === "boolean") return value;
+        return typeof value === "string" ? value : JSON.stringify(value);
+      },
+    };
+  }
+}
+
+/**
+ * Formatea una fecha (hora local) con las máscaras de Oracle YYYY, MM, DD, HH24, HH, MI y SS
+ */
+function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return format.replace(DATE_TOKEN_REGEX, (token) => {
+    switch (token) {
+      case "YYYY":
+        return String(date.getFullYear());
+      case "MM":
+        return pad(date.getMonth() + 1);
+      case "DD":
+        return pad(date.getDate());
+      case "HH24":
+        return pad(date.getHours());
+      case "HH":
+        return pad(date.getHours() % 12 || 12);
+      case "MI":
+        return pad(date.getMinutes());
+      default:
+        return pad(date.getSeconds());
+    }
+  });
+}
+
+/**
+ * Antepone un apóstrofo a los valores de texto que empiezan como una fórmula para que las hojas de cálculo
+ * los muestren como texto al abrir un CSV (inyección de fórmulas)
+ */
+function neutralizeFormula(text: string): string {
+  return FORMULA_PREFIXES.some((prefix) => text.startsWith(prefix)) ? `'${text}` : text;
+}
+
+/**
+ * Escapa texto para XML y descarta los caracteres de control no permitidos
+ */
+function escapeXml(text: string): string {
+  const allowed = Array.from(text).filter((char) => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 || XML_ALLOWED_CONTROL_CHARS.has(code);
+  });
+  return allowed.join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Nombre de columna de Excel (0 -> A, 26 -> AA)
+ */
+function columnName(index: number): string {
+  let name = "";
+  for (let value = index + 1; value > 0; value = Math.floor((value - 1) / 26)) {
+    name = String.fromCharCode(65 + ((value - 1) % 26)) + name;
+  }
+  return name;
+}
+
+async function* single(content: string): AsyncGenerator<string, void, undefined> {
+  yield content;
+}
+
+// Tabla de CRC-32 (polinomio 0xEDB88320) para las entradas del ZIP
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Escritor de ZIP sin compresión (método STORE) que permite generar el contenido de cada archivo en streaming:
+ * el CRC y el tamaño van en un descriptor de datos tras el contenido y en el directorio central (sin ZIP64,
+ * por lo que la escritura falla si el total supera los 4 GB)
+ */
+class ZipWriter {
+  private encoder = new TextEncoder();
+  private offset = 0;
+  private entries: Array<{ name: Uint8Array; crc: number; size: number; offset: number }> = [];
+
+  /**
+   * Escribe un archivo con el contenido generado por las partes de texto (UTF-8)
+   */
+  async *addFile(path: string, parts: AsyncIterable<string>): AsyncGenerator<Uint8Array, void, undefined> {
+    const name = this.encoder.encode(path);
+    const entryOffset = this.offset;
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true); // Versión necesaria para extraer
+    header.setUint16(6, 0x0808, true); // Descriptor de datos + nombres UTF-8
+    header.setUint16(8, 0, true); // STORE
+    header.setUint16(10, 0, true); // Hora
+    header.setUint16(12, 0x21, true); // Fecha (1980-01-01)
+    header.setUint16(26, name.length, true);
+    yield this.write(concat(new Uint8Array(header.buffer), name));
+
+    let crc = 0xFFFFFFFF;
+    let size = 0;
+    for await (const part of parts) {
+      const bytes = this.encoder.encode(part);
+      for (const byte of bytes) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+      }
+      size += bytes.length;
+      yield this.write(bytes);
+    }
+    crc = (crc ^ 0xFFFFFFFF) >>> 0;
+
+    const descriptor = new DataView(new ArrayBuffer(16));
+    descriptor.setUint32(0, 0x08074b50, true);
+    descriptor.setUint32(4, crc, true);
+    descriptor.setUint32(8, size, true);
+    descriptor.setUint32(12, size, true);
+    yield this.write(new Uint8Array(descriptor.buffer));
+
+    this.entries.push({ name, crc, size, offset: entryOffset });
+  }
+
+  /**
+   * Directorio central y registro de fin del ZIP
+   */
+  finish(): Uint8Array {
+    const directoryOffset = this.offset;
+    const records = this.entries.map((entry) => {
+      const record = new DataView(new ArrayBuffer(46));
+      record.setUint32(0, 0x02014b50, true);
+      record.setUint16(4, 20, true); // Versión que lo creó
+      record.setUint16(6, 20, true); // Versión necesaria para extraer
+      record.setUint16(8, 0x0808, true);
+      record.setUint16(10, 0, true);
+      record.setUint16(12, 0, true);
+      record.setUint16(14, 0x21, true);
+      record.setUint32(16, entry.crc, true);
+      record.setUint32(20, entry.size, true);
+      record.setUint32(24, entry.size, true);
+      record.setUint16(28, entry.name.length, true);
+      record.setUint32(42, entry.offset, true);
+      return concat(new Uint8Array(record.buffer), entry.name);
+    });
+    const directory = concat(...records);
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, directory.length, true);
+    end.setUint32(16, directoryOffset, true);
+
+    return this.write(concat(directory, new Uint8Array(end.buffer)));
+  }
+
+  /**
+   * Avanza el desplazamiento; sin ZIP64 ningún tamaño ni desplazamiento puede superar los 4 GB
+   */
+  private write(bytes: Uint8Array): Uint8Array {
+    this.offset += bytes.length;
+    if (this.offset > ZIP32_LIMIT) {
+      throw new Error("La exportación XLSX supera el tamaño máximo de 4 GB");
+    }
+    return bytes;
+  }
+}
+
+function concat(...arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((total, array) => total + array.length, 0));
+  let position = 0;
+  for (const array of arrays) {
+    result.set(array, position);
+    position += array.length;
+  }
+  return result;
+}
@@ -0,0 +1,320 @@
+/**
+ * SchemaIntrospector - Genera configuraciones de entidades leyendo el diccionario de datos de Oracle
+ */
+
+import { querySQL } from "./connection.ts";
+import { ORACLE_TYPES } from "./config.ts";
+import type { EntityConfig, FieldConfig, QueryParams } from "./types.ts";
+
+// Opciones de introspección
+export interface IntrospectionOptions {
+  schema?: string; // Esquema a leer (por defecto, el esquema actual de la sesión)
+  tables?: string[]; // Tablas a incluir (por defecto, todas las del esquema)
+  fieldNaming?: "column" | "camelCase"; // Nombre de los campos: igual a la columna o camelCase con `column`
+  write?: boolean; // Combinar el resultado con el archivo de configuración de entidades
+}
+
+// Filas del diccionario de datos utilizadas para construir las entidades
+export interface DictionaryColumn {
+  TABLE_NAME: string;
+  COLUMN_NAME: string;
+  DATA_TYPE: string;
+  CHAR_LENGTH?: number | null;
+  DATA_PRECISION?: number | null;
+  DATA_SCALE?: number | null;
+  NULLABLE: string;
+}
+
+export interface DictionaryConstraint {
+  TABLE_NAME: string;
+  CONSTRAINT_NAME: string;
+  CONSTRAINT_TYPE: string;
+  SEARCH_CONDITION?: string | null;
+  COLUMN_NAME?: string | null;
+}
+
+export interface DictionaryComment {
+  TABLE_NAME: string;
+  COLUMN_NAME: string;
+  COMMENTS: string;
+}
+
+export interface DictionaryIdentityColumn {
+  TABLE_NAME: string;
+  COLUMN_NAME: string;
+}
+
+export interface DictionaryMetadata {
+  columns: DictionaryColumn[];
+  constraints: DictionaryConstraint[];
+  comments: DictionaryComment[];
+  identityColumns: DictionaryIdentityColumn[];
+}
+
+// Condición de un check constraint del tipo: COLUMNA IN ('A', 'B', 1)
+const CHECK_IN_REGEX = /^\s*\(?\s*"?([A-Za-z][\w$#]*)"?\s+IN\s*\((.+)\)\s*\)?\s*$/i;
+
+export class SchemaIntrospector {
+  /**
+   * Lee el diccionario de datos y genera la configuración de cada tabla, indexada por nombre de entidad
+   */
+  async introspect(options: IntrospectionOptions = {}): Promise<Record<string, EntityConfig>> {
+    try {
+      const metadata = await this.readDictionary(options);
+      return this.buildEntityConfigs(metadata, options);
+    } catch (error) {
+      throw new Error(
+        `Error en introspección del esquema: ${error instanceof Error ? error.message : "Error desconocido"}`,
+      );
+    }
+  }
+
+  /**
+   * Construye las configuraciones de entidades a partir de los metadatos del diccionario
+   */
+  buildEntityConfigs(
+    metadata: DictionaryMetadata,
+    options: Pick<IntrospectionOptions, "fieldNaming"> = {},
+  ): Record<string, EntityConfig> {
+    const entities: Record<string, EntityConfig> = {};
+    const tableNames = [...new Set(metadata.columns.map((column) => column.TABLE_NAME))];
+
+    tableNames.forEach((tableName) => {
+      const config = this.buildEntityConfig(tableName, metadata, options.fieldNaming || "column");
+      if (config) {
+        entities[tableName.toLowerCase()] = config;
+      }
+    });
+
+    return entities;
+  }
+
+  /**
+   * Construye la configuración de una tabla; devuelve null si no tiene clave primaria
+   */
+  private buildEntityConfig(
+    tableName: string,
+    metadata: DictionaryMetadata,
+    fieldNaming: "column" | "camelCase",
+  ): EntityConfig | null {
+    const columns = metadata.columns.filter((column) => column.TABLE_NAME === tableName);
+    const constraints = metadata.constraints.filter((constraint) => constraint.TABLE_NAME === tableName);
+    const identityColumns = new Set(
+      metadata.identityColumns.filter((identity) => identity.TABLE_NAME === tableName).map((i) => i.COLUMN_NAME),
+    );
+    const comments = new Map(
+      metadata.comments.filter((comment) => comment.TABLE_NAME === tableName).map((c) => [c.COLUMN_NAME, c.COMMENTS]),
+    );
+
+    // Columnas agrupadas por constraint (un constraint puede abarcar varias columnas)
+    const constraintColumns = new Map<string, { type: string; columns: string[]; condition?: string | null }>();
+    constraints.forEach((constraint) => {
+      const entry = constraintColumns.get(constraint.CONSTRAINT_NAME) ||
+        { type: constraint.CONSTRAINT_TYPE, columns: [], condition: constraint.SEARCH_CONDITION };
+      if (constraint.COLUMN_NAME) {
+        entry.columns.push(constraint.COLUMN_NAME);
+      }
+      constraintColumns.set(constraint.CONSTRAINT_NAME, entry);
+    });
+
+    const primaryKeyColumns = [...constraintColumns.values()].find((c) => c.type === "P")?.columns || [];
+    if (primaryKeyColumns.length === 0) {
+      console.warn(`Tabla '${tableName}' omitida: no tiene clave primaria`);
+      return null;
+    }
+
+    const uniqueColumns = new Set(
+      [...constraintColumns.values()]
+        .filter((c) => c.type === "U" && c.columns.length === 1)
+        .map((c) => c.columns[0]),
+    );
+
+    // Valores permitidos deducidos de check constraints "COLUMNA IN (...)"
+    const allowedValues = new Map<string, FieldConfig["values"]>();
+    [...constraintColumns.values()]
+      .filter((c) => c.type === "C" && c.condition)
+      .forEach((c) => {
+        const parsed = this.parseCheckInCondition(c.condition as string);
+        if (parsed) {
+          allowedValues.set(parsed.column.toUpperCase(), parsed.values);
+        }
+      });
+
+    const fieldName = (columnName: string) => fieldNaming === "camelCase" ? this.toCamelCase(columnName) : columnName;
+
+    const fields: Record<string, FieldConfig> = {};
+    columns.forEach((column) => {
+      const name = column.COLUMN_NAME;
+      const isPrimaryKey = primaryKeyColumns.includes(name);
+      const isIdentity = identityColumns.has(name);
+      const type = this.mapDataType(column);
+
+      const field: FieldConfig = { type };
+      if (fieldNaming === "camelCase") field.column = name;
+      if ((type === ORACLE_TYPES.VARCHAR2 || type === ORACLE_TYPES.CHAR) && column.CHAR_LENGTH) {
+        field.length = column.CHAR_LENGTH;
+      }
+      if (column.NULLABLE === "N" && !isIdentity) field.required = true;
+      if (isPrimaryKey) field.primaryKey = true;
+      if (isIdentity) field.autoIncrement = true;
+      if (uniqueColumns.has(name)) field.unique = true;
+      if (comments.get(name)) field.description = comments.get(name);
+      if (allowedValues.has(name.toUpperCase())) field.values = allowedValues.get(name.toUpperCase());
+
+      fields[fieldName(name)] = field;
+    });
+
+    return {
+      tableName,
+      primaryKey: primaryKeyColumns.length === 1 ? fieldName(primaryKeyColumns[0]) : primaryKeyColumns.map(fieldName),
+      autoIncrement: primaryKeyColumns.some((column) => identityColumns.has(column)) || undefined,
+      fields,
+      operations: {
+        create: true,
+        read: true,
+        update: true,
+        delete: true,
+        search: true,
+        paginate: true,
+      },
+    };
+  }
+
+  /**
+   * Ejecuta las consultas sobre el diccionario de datos
+   */
+  private async readDictionary(options: IntrospectionOptions): Promise<DictionaryMetadata> {
+    const params: QueryParams = { schema: options.schema ? options.schema.toUpperCase() : null };
+    const ownerCondition = "owner = NVL(:schema, SYS_CONTEXT('USERENV', 'CURRENT_SCHEMA'))";
+
+    // Restringir a las tablas pedidas (una variable bind por tabla)
+    let tableCondition = `table_name IN (SELECT table_name FROM all_tables WHERE ${ownerCondition})`;
+    if (options.tables && options.tables.length > 0) {
+      const placeholders = options.tables.map((table, index) => {
+        params[`table_${index}`] = table.toUpperCase();
+        return `:table_${index}`;
+      });
+      tableCondition = `table_name IN (${placeholders.join(", ")})`;
+    }
+
+    // search_condition_vc existe desde 12.2 y all_tab_identity_cols desde 12.1; en versiones anteriores se lee
+    // search_condition (LONG) y no hay columnas de identidad
+    const features = await querySQL(
+      `
+      SELECT table_name, column_name FROM all_tab_columns
+      WHERE owner = 'SYS'
+        AND ((table_name = 'ALL_CONSTRAINTS' AND column_name = 'SEARCH_CONDITION_VC')
+          OR (table_name = 'ALL_TAB_IDENTITY_COLS' AND column_name = 'COLUMN_NAME'))
+    `,
+    );
+    const available = new Set((features.rows || []).map((row) => `${row.TABLE_NAME}.${row.COLUMN_NAME}`));
+    const searchCondition = available.has("ALL_CONSTRAINTS.SEARCH_CONDITION_VC")
+      ? "c.search_condition_vc"
+      : "c.search_condition";
+    const hasIdentityColumns = available.has("ALL_TAB_IDENTITY_COLS.COLUMN_NAME");
+
+    const [columns, constraints, comments, identityColumns] = await Promise.all([
+      querySQL(
+        `
+        SELECT table_name, column_name, data_type, char_length, data_precision, data_scale, nullable
+        FROM all_tab_columns
+        WHERE ${ownerCondition} AND ${tableCondition}
+        ORDER BY table_name, column_id
+      `,
+        params,
+      ),
+      querySQL(
+        `
+        SELECT c.table_name, c.constraint_name, c.constraint_type,
+               ${searchCondition} AS search_condition, cc.column_name
+        FROM all_constraints c
+        LEFT JOIN all_cons_columns cc
+          ON cc.owner = c.owner AND cc.constraint_name = c.constraint_name AND cc.table_name = c.table_name
+        WHERE c.${ownerCondition} AND c.${tableCondition}
+          AND c.constraint_type IN ('P', 'U', 'C')
+        ORDER BY c.table_name, c.constraint_name, cc.position
+      `,
+        params,
+      ),
+      querySQL(
+        `
+        SELECT table_name, column_name, comments
+        FROM all_col_comments
+        WHERE ${ownerCondition} AND ${tableCondition} AND comments IS NOT NULL
+      `,
+        params,
+      ),
+      hasIdentityColumns
+        ? querySQL(
+          `
+        SELECT table_name, column_name
+        FROM all_tab_identity_cols
+        WHERE ${ownerCondition} AND ${tableCondition}
+      `,
+          params,
+        )
+        : Promise.resolve({ rows: [] }),
+    ]);
+
+    return {
+      columns: (columns.rows || []) as unknown as DictionaryColumn[],
+      constraints: (constraints.rows || []) as unknown as DictionaryConstraint[],
+      comments: (comments.rows || []) as unknown as DictionaryComment[],
+      identityColumns: (identityColumns.rows || []) as unknown as DictionaryIdentityColumn[],
+    };
+  }
+
+  /**
+   * Mapea el tipo Oracle de una columna a los tipos de ORACLE_TYPES
+   */
+  private mapDataType(column: DictionaryColumn): string {
+    const dataType = column.DATA_TYPE.toUpperCase();
+
+    if (dataType === "VARCHAR2" || dataType === "NVARCHAR2") return ORACLE_TYPES.VARCHAR2;
+    if (dataType === "CHAR" || dataType === "NCHAR") return ORACLE_TYPES.CHAR;
+    if (dataType === "NUMBER") {
+      return column.DATA_SCALE === 0 && column.DATA_PRECISION ? ORACLE_TYPES.INTEGER : ORACLE_TYPES.NUMBER;
+    }
+    if (dataType === "FLOAT" || dataType.startsWith("BINARY_")) return ORACLE_TYPES.NUMBER;
+    if (dataType === "DATE") return ORACLE_TYPES.DATE;
+    if (dataType.startsWith("TIMESTAMP")) return ORACLE_TYPES.TIMESTAMP;
+    if (dataType === "CLOB" || dataType === "NCLOB") return ORACLE_TYPES.CLOB;
+    if (dataType === "BLOB") return ORACLE_TYPES.BLOB;
+
+    return dataType;
+  }
+
+  /**
+   * Extrae columna y valores de una condición "COLUMNA IN ('A', 'B')"
+   */
+  private parseCheckInCondition(
+    condition: string,
+  ): { column: string; values: NonNullable<FieldConfig["values"]> } | null {
+    const match = CHECK_IN_REGEX.exec(condition);
+    if (!match) {
+      return null;
+    }
+
+    const values: NonNullable<FieldConfig["values"]> = [];
+    for (const item of match[2].split(",")) {
+      const literal = item.trim();
+      if (/^'.*'$/.test(literal)) {
+        const value = literal.slice(1, -1).replace(/''/g, "'");
+        values.push({ value, label: value });
+      } else if (literal !== "" && !isNaN(Number(literal))) {
+        values.push({ value: Number(literal), label: literal });
+      } else {
+        return null; // Expresiones no literales: no se puede deducir una lista de valores
+      }
+    }
+
+    return { column: match[1], values };
+  }
+
+  /**
+   * Convierte NOMBRE_DE_COLUMNA en nombreDeColumna
+   */
+  private toCamelCase(columnName: string): string {
+    return columnName.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+  }
+}
@@ -0,0 +1,693 @@
+/**
+ * OpenApiGenerator - Documento OpenAPI 3.1 de la API REST generada a partir de entities.json
+ */
+
+import { SqlBuilder } from "./sql-builder.ts";
+import { EXPORT_CONTENT_TYPES } from "./export.ts";
+import type { AppConfig, EntityConfig, FieldConfig } from "./types.ts";
+
+// Opciones del generador
+export interface OpenApiOptions {
+  title?: string;
+  version?: string;
+  description?: string;
+  basePath?: string; // Debe coincidir con RestRouterOptions.basePath
+  servers?: Array<{ url: string; description?: string }>;
+}
+
+// Esquema JSON (subconjunto usado por el generador)
+export type JsonSchema = Record<string, unknown>;
+
+// Documento OpenAPI generado
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string; description?: string }>;
+  paths: Record<string, Record<string, unknown>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    parameters: Record<string, unknown>;
+    responses: Record<string, unknown>;
+  };
+}
+
+export class OpenApiGenerator {
+  private appConfig: AppConfig;
+  private options: OpenApiOptions;
+
+  constructor(appConfig: AppConfig, options: OpenApiOptions = {}) {
+    this.appConfig = appConfig;
+    this.options = options;
+  }
+
+  /**
+   * Genera el documento OpenAPI completo
+   */
+  generate(): OpenApiDocument {
+    const document: OpenApiDocument = {
+      openapi: "3.1.0",
+      info: {
+        title: this.options.title || "Oracle REST API",
+        version: this.options.version || "1.0.0",
+      },
+      paths: {},
+      components: {
+        schemas: this.buildCommonSchemas(),
+        parameters: this.buildCommonParameters(),
+        responses: this.buildCommonResponses(),
+      },
+    };
+
+    if (this.options.description) document.info.description = this.options.description;
+    if (this.options.servers) document.servers = this.options.servers;
+
+    for (const [entityName, entityConfig] of Object.entries(this.appConfig.entities)) {
+      this.addEntity(document, entityName, entityConfig);
+    }
+
+    return document;
+  }
+
+  /**
+   * Agrega esquemas y rutas de una entidad
+   */
+  private addEntity(document: OpenApiDocument, entityName: string, entityConfig: EntityConfig): void {
+    const schemaName = this.toSchemaName(entityName);
+    const operations = entityConfig.operations || {};
+    const basePath = `${(this.options.basePath || "").replace(/\/+$/, "")}/${entityName}`;
+    const tag = entityConfig.displayName || entityName;
+    const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+    const schemas = document.components.schemas;
+    schemas[schemaName] = this.buildReadSchema(entityConfig);
+    if (operations.create !== false) schemas[`${schemaName}Create`] = this.buildWriteSchema(entityConfig, false);
+    if (operations.update !== false) schemas[`${schemaName}Update`] = this.buildWriteSchema(entityConfig, true);
+    if (operations.read !== false) {
+      schemas[`${schemaName}Page`] = {
+        type: "object",
+        required: ["data", "pagination"],
+        properties: {
+          data: { type: "array", items: ref(schemaName) },
+          pagination: { oneOf: [ref("Pagination"), ref("CursorPagination")] },
+        },
+      };
+    }
+
+    // Clave compuesta: valores separados por comas en el orden de primaryKey
+    const keyFields = SqlBuilder.getPrimaryKeyFields(entityConfig);
+    const idParameter = keyFields.length === 1
+      ? {
+        name: "id",
+        in: "path",
+        required: true,
+        schema: this.buildFieldSchema(entityConfig.fields[keyFields[0]] || { type: "string" }),
+      }
+      : {
+        name: "id",
+        in: "path",
+        required: true,
+        description: `Valores de la clave compuesta separados por comas: ${keyFields.join(",")}`,
+        schema: { type: "string" },
+      };
+    const idSchema = keyFields.length === 1 ? idParameter.schema : {
+      type: "object",
+      required: keyFields,
+      properties: Object.fromEntries(
+        keyFields.map((field) => [field, this.buildFieldSchema(entityConfig.fields[field] || { type: "string" })]),
+      ),
+    };
+    const jsonBody = (name: string) => ({ required: true, content: { "application/json": { schema: ref(name) } } });
+    const jsonResponse = (description: string, schema: unknown) => ({
+      description,
+      content: { "application/json": { schema } },
+    });
+
+    const collection: Record<string, unknown> = {};
+    const item: Record<string, unknown> = { parameters: [idParameter] };
+
+    if (operations.read !== false) {
+      collection.get = {
+        tags: [tag],
+        operationId: `list${schemaName}`,
+        summary: `Lista ${tag}`,
+        parameters: [
+          { $ref: "#/components/parameters/page" },
+          { $ref: "#/components/parameters/pageSize" },
+          { $ref: "#/components/parameters/after" },
+          { $ref: "#/components/parameters/before" },
+          { $ref: "#/components/parameters/includeTotal" },
+          ...(operations.search !== false ? [{ $ref: "#/components/parameters/search" }] : []),
+          this.buildSortParameter(entityConfig),
+          this.buildFilterParameter(entityConfig),
+          this.buildFieldsParameter(entityConfig),
+          ...this.buildIncludeParameters(entityConfig),
+          ...this.buildSoftDeleteParameters(entityConfig),
+        ],
+        responses: {
+          200: jsonResponse("Página de resultados", ref(`${schemaName}Page`)),
+          400: { $ref: "#/components/responses/BadRequest" },
+        },
+      };
+      item.get = {
+        tags: [tag],
+        operationId: `get${schemaName}`,
+        summary: `Obtiene un registro de ${tag}`,
+        parameters: [
+          this.buildFieldsParameter(entityConfig),
+          ...this.buildIncludeParameters(entityConfig),
+          ...this.buildSoftDeleteParameters(entityConfig),
+        ],
+        responses: {
+          200: jsonResponse("Registro encontrado", ref(schemaName)),
+          404: { $ref: "#/components/responses/NotFound" },
+        },
+      };
+    }
+
+    if (operations.create !== false) {
+      collection.post = {
+        tags: [tag],
+        operationId: `create${schemaName}`,
+        summary: `Crea un registro de ${tag}`,
+        requestBody: jsonBody(`${schemaName}Create`),
+        responses: {
+          201: jsonResponse("Registro creado", {
+            type: "object",
+            required: ["record"],
+            properties: { id: idSchema, record: ref(schemaName) },
+          }),
+          400: { $ref: "#/components/responses/BadRequest" },
+        },
+      };
+    }
+
+    if (operations.update !== false) {
+      const update = (method: string) => ({
+        tags: [tag],
+        operationId: `${method}${schemaName}`,
+        summary: `Actualiza un registro de ${tag}`,
+        requestBody: jsonBody(`${schemaName}Update`),
+        responses: {
+          200: jsonResponse("Registro actualizado", ref(schemaName)),
+          400: { $ref: "#/components/responses/BadRequest" },
+          404: { $ref: "#/components/responses/NotFound" },
+        },
+      });
+      item.put = update("update");
+      item.patch = update("patch");
+    }
+
+    if (operations.delete !== false) {
+      item.delete = {
+        tags: [tag],
+        operationId: `delete${schemaName}`,
+        summary: `Elimina un registro de ${tag}`,
+        parameters: entityConfig.softDelete
+          ? [{
+            name: "force",
+            in: "query",
+            description: "Elimina físicamente el registro en lugar de marcarlo como borrado",
+            schema: { type: "boolean" },
+          }]
+          : [],
+        responses: {
+          204: { description: "Registro eliminado" },
+          404: { $ref: "#/components/responses/NotFound" },
+        },
+      };
+    }
+
+    if (Object.keys(collection).length > 0) document.paths[basePath] = collection;
+    if (Object.keys(item).length > 1) document.paths[`${basePath}/{id}`] = item;
+
+    if (operations.read !== false) {
+      document.paths[`${basePath}/_facets`] = {
+        get: {
+          tags: [tag],
+          operationId: `facets${schemaName}`,
+          summary: `Valores distintos y su número de registros en ${tag}`,
+          parameters: [
+            {
+              name: "facets",
+              in: "query",
+              required: true,
+              description: "Campos separados por comas; el filtro de cada campo no se aplica a su propio conteo",
+              schema: { type: "string" },
+            },
+            {
+              name: "limit",
+              in: "query",
+              description: "Máximo de valores por campo (por defecto y como tope, maxPageSize)",
+              schema: { type: "integer", minimum: 1 },
+            },
+            ...(operations.search !== false ? [{ $ref: "#/components/parameters/search" }] : []),
+            this.buildFilterParameter(entityConfig),
+            ...this.buildSoftDeleteParameters(entityConfig),
+          ],
+          responses: {
+            200: jsonResponse("Valores por campo, de mayor a menor número de registros", {
+              type: "object",
+              additionalProperties: {
+                type: "array",
+                items: {
+                  type: "object",
+                  required: ["value", "count"],
+                  properties: { value: {}, label: { type: "string" }, count: { type: "integer" } },
+                },
+              },
+            }),
+            400: { $ref: "#/components/responses/BadRequest" },
+          },
+        },
+      };
+      document.paths[`${basePath}/_export`] = {
+        get: {
+          tags: [tag],
+          operationId: `export${schemaName}`,
+          summary: `Exporta los registros de ${tag}`,
+          parameters: [
+            {
+              name: "format",
+              in: "query",
+              schema: { type: "string", enum: Object.keys(EXPORT_CONTENT_TYPES), default: "csv" },
+            },
+            {
+              name: "delimiter",
+              in: "query",
+              description: "Delimitador de CSV",
+              schema: { type: "string", default: "," },
+            },
+            { name: "bom", in: "query", description: "Agregar BOM UTF-8 al CSV", schema: { type: "boolean" } },
+            ...(operations.search !== false ? [{ $ref: "#/components/parameters/search" }] : []),
+            this.buildSortParameter(entityConfig),
+            this.buildFilterParameter(entityConfig),
+            this.buildFieldsParameter(entityConfig),
+            ...this.buildSoftDeleteParameters(entityConfig),
+          ],
+          responses: {
+            200: {
+              description: "Archivo con los registros",
+              content: Object.fromEntries(
+                Object.values(EXPORT_CONTENT_TYPES).map((
+                  type,
+                ) => [type, { schema: { type: "string", format: "binary" } }]),
+              ),
+            },
+            400: { $ref: "#/components/responses/BadRequest" },
+          },
+        },
+      };
+    }
+
+    if (entityConfig.softDelete && operations.update !== false) {
+      document.paths[`${basePath}/{id}/restore`] = {
+        parameters: [idParameter],
+        post: {
+          tags: [tag],
+          operationId: `restore${schemaName}`,
+          summary: `Restaura un registro borrado de ${tag}`,
+          responses: {
+            200: jsonResponse("Registro restaurado", ref(schemaName)),
+            404: { $ref: "#/components/responses/NotFound" },
+          },
+        },
+      };
+    }
+
+    for (const [actionName, actionConfig] of Object.entries(entityConfig.customActions || {})) {
+      document.paths[`${basePath}/{id}/actions/${actionName}`] = {
+        parameters: [idParameter],
+        post: {
+          tags: [tag],
+          operationId: `${actionName}${schemaName}`,
+          summary: actionConfig.displayName,
+          description: actionConfig.description,
+          requestBody: {
+            required: false,
+            content: { "application/json": { schema: { type: "object", additionalProperties: true } } },
+          },
+          responses: {
+            200: jsonResponse("Resultado de la acción", {
+              type: "object",
+              properties: { result: { type: "array", items: { type: "object", additionalProperties: true } } },
+            }),
+            404: { $ref: "#/components/responses/NotFound" },
+          },
+        },
+      };
+    }
+
+    if (entityConfig.audit?.enabled && operations.read !== false) {
+      document.paths[`${basePath}/{id}/history`] = {
+        parameters: [idParameter],
+        get: {
+          tags: [tag],
+          operationId: `get${schemaName}History`,
+          summary: `Historial de auditoría de un registro de ${tag}`,
+          responses: {
+            200: jsonResponse("Cambios del registro, del más antiguo al más reciente", {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  entity: { type: "string" },
+                  recordId: { type: "string" },
+                  operation: { type: "string", enum: ["create", "update", "delete", "action"] },
+                  action: { type: "string" },
+                  actor: { type: ["string", "null"] },
+                  timestamp: { type: "string", format: "date-time" },
+                  changes: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: { field: { type: "string" }, before: {}, after: {} },
+                    },
+                  },
+                },
+              },
+            }),
+          },
+        },
+      };
+    }
+  }
+
+  /**
+   * Esquema de lectura: todos los campos, con readOnly en los no editables
+   */
+  private buildReadSchema(entityConfig: EntityConfig): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    for (const [fieldName, fieldConfig] of Object.entries(entityConfig.fields)) {
+      properties[fieldName] = this.buildFieldSchema(fieldConfig, !fieldConfig.required && !fieldConfig.primaryKey);
+      if (fieldConfig.readonly || fieldConfig.autoIncrement) properties[fieldName].readOnly = true;
+    }
+
+    return {
+      type: "object",
+      ...(entityConfig.description ? { description: entityConfig.description } : {}),
+      required: SqlBuilder.getPrimaryKeyFields(entityConfig),
+      properties,
+    };
+  }
+
+  /**
+   * Esquema de creación o actualización: solo campos escribibles
+   */
+  private buildWriteSchema(entityConfig: EntityConfig, isUpdate: boolean): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [fieldName, fieldConfig] of Object.entries(entityConfig.fields)) {
+      if (fieldConfig.readonly || fieldConfig.autoIncrement) continue;
+      if (isUpdate && SqlBuilder.getPrimaryKeyFields(entityConfig).includes(fieldName)) continue;
+
+      properties[fieldName] = this.buildFieldSchema(fieldConfig, !fieldConfig.required);
+      if (!isUpdate && fieldConfig.required && fieldConfig.default === undefined) {
+        required.push(fieldName);
+      }
+    }
+
+    return {
+      type: "object",
+      additionalProperties: false,
+      ...(required.length > 0 ? { required } : {}),
+      properties,
+    };
+  }
+
+  /**
+   * Esquema JSON de un campo según su tipo Oracle
+   */
+  private buildFieldSchema(fieldConfig: FieldConfig, nullable = false): JsonSchema {
+    const schema: JsonSchema = {};
+
+    switch (fieldConfig.type.toLowerCase()) {
+      case "number":
+        schema.type = "number";
+        break;
+      case "integer":
+        schema.type = "integer";
+        break;
+      case "boolean":
+        schema.type = "boolean";
+        break;
+      case "date":
+        schema.type = "string";
+        schema.format = "date";
+        break;
+      case "timestamp":
+        schema.type = "string";
+        schema.format = "date-time";
+        break;
+      case "blob":
+        schema.type = "string";
+        schema.contentEncoding = "base64";
+        break;
+      default:
+        schema.type = "string";
+        if (fieldConfig.length) schema.maxLength = fieldConfig.length;
+    }
+
+    if (fieldConfig.values && fieldConfig.values.length > 0) {
+      schema.enum = fieldConfig.values.map((v) => v.value);
+      schema["x-enum-labels"] = fieldConfig.values.map((v) => v.label);
+    }
+    if (nullable) {
+      schema.type = [schema.type, "null"];
+      if (schema.enum) (schema.enum as unknown[]).push(null);
+    }
+    if (fieldConfig.displayName) schema.title = fieldConfig.displayName;
+    if (fieldConfig.description) schema.description = fieldConfig.description;
+    if (fieldConfig.default !== undefined) schema.default = fieldConfig.default;
+    if (fieldConfig.format === "email") schema.format = "email";
+    if (fieldConfig.format === "url") schema.format = "uri";
+
+    return schema;
+  }
+
+  /**
+   * Parámetro sort: CAMPO, -CAMPO o CAMPO:desc
+   */
+  private buildSortParameter(entityConfig: EntityConfig): Record<string, unknown> {
+    const fields = Object.keys(entityConfig.fields);
+    return {
+      name: "sort",
+      in: "query",
+      description: "Campo de ordenamiento; prefijo '-' o sufijo ':desc' para orden descendente",
+      schema: {
+        type: "string",
+        enum: fields.flatMap((field) => [field, `-${field}`, `${field}:asc`, `${field}:desc`]),
+      },
+    };
+  }
+
+  /**
+   * Parámetros withDeleted y onlyDeleted (vacío si la entidad no usa borrado lógico)
+   */
+  private buildSoftDeleteParameters(entityConfig: EntityConfig): Array<Record<string, unknown>> {
+    if (!entityConfig.softDelete) {
+      return [];
+    }
+    return [
+      { name: "withDeleted", in: "query", description: "Incluir registros borrados", schema: { type: "boolean" } },
+      { name: "onlyDeleted", in: "query", description: "Solo registros borrados", schema: { type: "boolean" } },
+    ];
+  }
+
+  /**
+   * Parámetro fields: campos separados por comas o el nombre de una proyección de la entidad
+   */
+  private buildFieldsParameter(entityConfig: EntityConfig): Record<string, unknown> {
+    const projections = Object.keys(entityConfig.projections || {});
+    return {
+      name: "fields",
+      in: "query",
+      description: "Campos a devolver separados por comas (la clave primaria siempre se incluye)" +
+        (projections.length > 0 ? ` o una proyección: ${projections.join(", ")}` : ""),
+      schema: { type: "string" },
+    };
+  }
+
+  /**
+   * Parámetro include con las relaciones de la entidad (vacío si no tiene relaciones)
+   */
+  private buildIncludeParameters(entityConfig: EntityConfig): Array<Record<string, unknown>> {
+    const relations = Object.keys(entityConfig.relations || {});
+    if (relations.length === 0) {
+      return [];
+    }
+    return [{
+      name: "include",
+      in: "query",
+      description: `Relaciones a incluir separadas por comas (${relations.join(", ")}); admite anidamiento con '.'`,
+      schema: { type: "string" },
+    }];
+  }
+
+  /**
+   * Parámetro filter[CAMPO]=valor / filter[CAMPO][operador]=valor (deepObject)
+   */
+  private buildFilterParameter(entityConfig: EntityConfig): Record<string, unknown> {
+    const properties: Record<string, JsonSchema> = {};
+    for (const [fieldName, fieldConfig] of Object.entries(entityConfig.fields)) {
+      const valueSchema = this.buildFieldSchema(fieldConfig);
+      delete valueSchema.title;
+      delete valueSchema.default;
+      properties[fieldName] = {
+        oneOf: [valueSchema, { $ref: "#/components/schemas/FilterOperators" }],
+      };
+    }
+
+    return {
+      name: "filter",
+      in: "query",
+      style: "deepObject",
+      explode: true,
+      description:
+        "Filtros por campo: filter[CAMPO]=valor o filter[CAMPO][operador]=valor (in/notIn separados por coma)",
+      schema: { type: "object", additionalProperties: false, properties },
+    };
+  }
+
+  /**
+   * Esquemas compartidos: paginación, errores y operadores de filtro
+   */
+  private buildCommonSchemas(): Record<string, JsonSchema> {
+    const scalar = { type: ["string", "number", "boolean"] };
+    const list = { type: "string", description: "Valores separados por coma" };
+
+    return {
+      Pagination: {
+        type: "object",
+        required: ["page", "pageSize", "total", "totalPages", "hasNext", "hasPrev"],
+        properties: {
+          page: { type: "integer", minimum: 1 },
+          pageSize: { type: "integer", minimum: 1 },
+          total: { type: "integer", minimum: 0 },
+          totalPages: { type: "integer", minimum: 0 },
+          hasNext: { type: "boolean" },
+          hasPrev: { type: "boolean" },
+        },
+      },
+      CursorPagination: {
+        type: "object",
+        required: ["pageSize", "nextCursor", "prevCursor", "hasNext", "hasPrev"],
+        properties: {
+          pageSize: { type: "integer", minimum: 1 },
+          nextCursor: { type: ["string", "null"] },
+          prevCursor: { type: ["string", "null"] },
+          hasNext: { type: "boolean" },
+          hasPrev: { type: "boolean" },
+          total: { type: "integer", minimum: 0 },
+        },
+      },
+      ValidationError: {
+        type: "object",
+        required: ["field", "message"],
+        properties: {
+          field: { type: "string" },
+          message: { type: "string" },
+          value: {},
+        },
+      },
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          error: { type: "string" },
+          field: { type: "string" },
+          details: { type: "array", items: { $ref: "#/components/schemas/ValidationError" } },
+        },
+      },
+      FilterOperators: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          eq: scalar,
+          ne: scalar,
+          gt: scalar,
+          gte: scalar,
+          lt: scalar,
+          lte: scalar,
+          like: { type: "string" },
+          notLike: { type: "string" },
+          in: list,
+          notIn: list,
+          isNull: { type: "boolean" },
+          isNotNull: { type: "boolean" },
+        },
+      },
+    };
+  }
+
+  /**
+   * Parámetros compartidos de paginación y búsqueda
+   */
+  private buildCommonParameters(): Record<string, unknown> {
+    const settings = this.appConfig.settings;
+    return {
+      page: {
+        name: "page",
+        in: "query",
+        schema: { type: "integer", minimum: 1, default: 1 },
+      },
+      pageSize: {
+        name: "pageSize",
+        in: "query",
+        description: "Se limita a settings.maxPageSize",
+        schema: {
+          type: "integer",
+          minimum: 1,
+          default: settings?.defaultPageSize ?? 10,
+          ...(settings?.maxPageSize ? { maximum: settings.maxPageSize } : {}),
+        },
+      },
+      after: {
+        name: "after",
+        in: "query",
+        description: "Paginación por cursor: nextCursor de la página anterior (vacío para la primera página)",
+        schema: { type: "string" },
+      },
+      before: {
+        name: "before",
+        in: "query",
+        description: "Paginación por cursor: prevCursor de la página siguiente",
+        schema: { type: "string" },
+      },
+      includeTotal: {
+        name: "includeTotal",
+        in: "query",
+        description: "Con paginación por cursor, incluir el total (ejecuta un COUNT)",
+        schema: { type: "boolean", default: false },
+      },
+      search: {
+        name: "search",
+        in: "query",
+        description: "Texto buscado en los campos marcados como searchable",
+        schema: { type: "string" },
+      },
+    };
+  }
+
+  /**
+   * Respuestas de error compartidas
+   */
+  private buildCommonResponses(): Record<string, unknown> {
+    const errorContent = { "application/json": { schema: { $ref: "#/components/schemas/Error" } } };
+    return {
+      BadRequest: { description: "Petición inválida o datos que no pasan la validación", content: errorContent },
+      NotFound: { description: "Entidad o registro no encontrado", content: errorContent },
+    };
+  }
+
+  /**
+   * Convierte el nombre de una entidad en un nombre de esquema (PascalCase)
+   */
+  private toSchemaName(entityName: string): string {
+    return entityName
+      .split(/[^A-Za-z0-9]+/)
+      .filter((part) => part.length > 0)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+      .join("");
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * RelationLoader - Carga de relaciones entre entidades configuradas (include)
+ */
+
+import { getConnectionDialect, querySQL } from "./connection.ts";
+import { SqlBuilder } from "./sql-builder.ts";
+import { InvalidIdentifierError, OperationNotAllowedError } from "./errors.ts";
+import type { EntityConfig, FilterValue, RelationConfig } from "./types.ts";
+
+// Obtiene la configuración de una entidad por su nombre
+export type EntityResolver = (entityName: string) => Promise<EntityConfig | null>;
+
+// Máximo de elementos en una lista IN de Oracle (ORA-01795)
+const MAX_IN_LIST_SIZE = 1000;
+
+export class RelationLoader {
+  private entityConfig: EntityConfig;
+  private resolveEntity: EntityResolver;
+
+  constructor(entityConfig: EntityConfig, resolveEntity: EntityResolver) {
+    this.entityConfig = entityConfig;
+    this.resolveEntity = resolveEntity;
+  }
+
+  /**
+   * Devuelve copias de los registros con las relaciones indicadas anidadas
+   * (belongsTo como objeto o null; hasMany y manyToMany como arreglos)
+   */
+  async load(records: Record<string, unknown>[], include: string[]): Promise<Record<string, unknown>[]> {
+    const result = records.map((record) => ({ ...record }));
+    if (result.length === 0 || include.length === 0) {
+      return result;
+    }
+
+    // Agrupar las rutas por relación: ["customer", "customer.region"] -> customer: ["region"]
+    const tree = new Map<string, string[]>();
+    include.forEach((path) => {
+      const [name, ...rest] = path.split(".");
+      const nested = tree.get(name) || [];
+      if (rest.length > 0) nested.push(rest.join("."));
+      tree.set(name, nested);
+    });
+
+    for (const [name, nested] of tree) {
+      const relation = this.entityConfig.relations?.[name];
+      if (!relation) {
+        throw new InvalidIdentifierError(name, "include", `Relación no definida en include: '${name}'`);
+      }
+      await this.loadRelation(result, name, relation, nested);
+    }
+
+    return result;
+  }
+
+  /**
+   * Carga una relación con consultas IN por lotes y la asigna a cada registro
+   */
+  private async loadRelation(
+    records: Record<string, unknown>[],
+    name: string,
+    relation: RelationConfig,
+    nested: string[],
+  ): Promise<void> {
+    const target = await this.getEntity(relation.entity);
+    const targetBuilder = new SqlBuilder(target, getConnectionDialect);
+
+    switch (relation.type) {
+      case "belongsTo": {
+        const targetKey = relation.targetKey || this.getSingleKey(target, name);
+        const rows = await this.queryRelated(
+          this.collectValues(records, relation.foreignKey),
+          (values) => targetBuilder.buildRelatedQuery(targetKey, values),
+        );
+        const related = await new RelationLoader(target, this.resolveEntity).load(rows, nested);
+
+        const byKey = new Map(related.map((row) => [String(row[targetKey]), row]));
+        records.forEach((record) => {
+          const value = record[relation.foreignKey];
+          record[name] = value === null || value === undefined ? null : byKey.get(String(value)) ?? null;
+        });
+        break;
+      }
+
+      case "hasMany": {
+        const localKey = relation.localKey || this.getSingleKey(this.entityConfig, name);
+        const rows = await this.queryRelated(
+          this.collectValues(records, localKey),
+          (values) => targetBuilder.buildRelatedQuery(relation.foreignKey, values),
+        );
+        const related = await new RelationLoader(target, this.resolveEntity).load(rows, nested);
+
+        this.assignGroups(records, name, localKey, related, (row) => row[relation.foreignKey]);
+        break;
+      }
+
+      case "manyToMany": {
+        const { through: throughEntity, otherKey } = relation;
+        if (!throughEntity || !otherKey) {
+          throw new Error(`Relación '${name}': manyToMany requiere 'through' y 'otherKey'`);
+        }
+        const through = await this.getEntity(throughEntity, false);
+        const localKey = relation.localKey || this.getSingleKey(this.entityConfig, name);
+        const targetKey = relation.targetKey || this.getSingleKey(target, name);
+        const throughBuilder = new SqlBuilder(through, getConnectionDialect);
+
+        const rows = await this.queryRelated(
+          this.collectValues(records, localKey),
+          (values) => targetBuilder.buildThroughQuery(targetKey, throughBuilder, relation.foreignKey, otherKey, values),
+        );
+        const related = await new RelationLoader(target, this.resolveEntity).load(rows, nested);
+
+        this.assignGroups(records, name, localKey, related, (row) => row.__owner);
+        related.forEach((row) => delete row.__owner);
+        break;
+      }
+
+      default:
+        throw new Error(`Relación '${name}': tipo no soportado '${(relation as RelationConfig).type}'`);
+    }
+  }
+
+  /**
+   * Ejecuta la consulta de registros relacionados en lotes de hasta 1000 valores
+   */
+  private async queryRelated(
+    values: FilterValue[],
+    buildQuery: (values: FilterValue[]) => { sql: string; params: Record<string, unknown> },
+  ): Promise<Record<string, unknown>[]> {
+    const rows: Record<string, unknown>[] = [];
+
+    for (let start = 0; start < values.length; start += MAX_IN_LIST_SIZE) {
+      const query = buildQuery(values.slice(start, start + MAX_IN_LIST_SIZE));
+      const result = await querySQL(query.sql, query.params);
+      rows.push(...(result.rows || []));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Asigna a cada registro el arreglo de relacionados cuyo valor de agrupación coincide con su clave local
+   */
+  private assignGroups(
+    records: Record<string, unknown>[],
+    name: string,
+    localKey: string,
+    related: Record<string, unknown>[],
+    groupValue: (row: Record<string, unknown>) => unknown,
+  ): void {
+    const groups = new Map<string, Record<string, unknown>[]>();
+    related.forEach((row) => {
+      const key = String(groupValue(row));
+      const group = groups.get(key) || [];
+      group.push(row);
+      groups.set(key, group);
+    });
+
+    records.forEach((record) => {
+      record[name] = groups.get(String(record[localKey])) || [];
+    });
+  }
+
+  /**
+   * Valores distintos y no nulos de un campo en los registros
+   */
+  private collectValues(records: Record<string, unknown>[], field: string): FilterValue[] {
+    const values = new Map<string, FilterValue>();
+    records.forEach((record) => {
+      const value = record[field];
+      if (value !== null && value !== undefined) {
+        values.set(String(value), value as FilterValue);
+      }
+    });
+    return [...values.values()];
+  }
+
+  /**
+   * Obtiene la configuración de una entidad relacionada; las relacionadas deben permitir lectura
+   */
+  private async getEntity(entityName: string, requireRead = true): Promise<EntityConfig> {
+    const entityConfig = await this.resolveEntity(entityName);
+    if (!entityConfig) {
+      throw new Error(`Entidad relacionada '${entityName}' no encontrada`);
+    }
+    if (requireRead && entityConfig.operations?.read === false) {
+      throw new OperationNotAllowedError(entityConfig.tableName, "read");
+    }
+    return entityConfig;
+  }
+
+  /**
+   * Clave primaria simple de una entidad (las relaciones con claves compuestas deben indicar la clave)
+   */
+  private getSingleKey(entityConfig: EntityConfig, relationName: string): string {
+    const keyFields = SqlBuilder.getPrimaryKeyFields(entityConfig);
+    if (keyFields.length !== 1) {
+      throw new Error(
+        `Relación '${relationName}': la clave primaria de '${entityConfig.tableName}' es compuesta, indique la clave`,
+      );
+    }
+    return keyFields[0];
+  }
+}
@@ -0,0 +1,586 @@
+/**
+ * RestRouter - API REST generada a partir de la configuración de entidades (entities.json)
+ */
+
+import { MemoryCache } from "./cache.ts";
+import { GenericController } from "./controller.ts";
+import { SqlBuilder } from "./sql-builder.ts";
+import { FILTER_OPERATORS } from "./config.ts";
+import { runWithAuditContext } from "./audit.ts";
+import { EXPORT_CONTENT_TYPES } from "./export.ts";
+import {
+  ConcurrencyConflictError,
+  DataValidationError,
+  HookVetoError,
+  InvalidIdentifierError,
+  OperationNotAllowedError,
+  RecordNotFoundError,
+} from "./errors.ts";
+import type {
+  AppConfig,
+  AuditSink,
+  CursorSearchOptions,
+  EntityConfig,
+  ExportFormat,
+  FieldConfig,
+  FilterCondition,
+  FilterOperator,
+  FilterOperators,
+  FilterValue,
+  RecordId,
+  SearchOptions,
+  WriteOptions,
+} from "./types.ts";
+
+// Opciones del router
+export interface RestRouterOptions {
+  basePath?: string; // Prefijo de las rutas, ej: "/api"
+  cache?: MemoryCache; // Caché compartido por todos los controladores
+  schema?: string; // Esquema para procedimientos almacenados
+  auditSink?: AuditSink; // Destino de la auditoría (por defecto, OracleAuditSink)
+  getActor?: (request: Request) => string | null | Promise<string | null>; // Usuario registrado en la auditoría
+}
+
+// Handler HTTP estándar, compatible con Deno.serve
+export type RestHandler = (request: Request) => Promise<Response>;
+
+// Operación de EntityConfig.operations requerida por cada método HTTP
+const METHOD_OPERATIONS: Record<string, keyof NonNullable<EntityConfig["operations"]>> = {
+  GET: "read",
+  POST: "create",
+  PUT: "update",
+  PATCH: "update",
+  DELETE: "delete",
+};
+
+// filter[CAMPO]=valor o filter[CAMPO][operador]=valor
+const FILTER_PARAM_REGEX = /^filter\[([^\]]+)\](?:\[([^\]]+)\])?$/;
+
+/**
+ * Error de petición HTTP con su código de estado
+ */
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export class RestRouter {
+  private appConfig: AppConfig;
+  private basePath: string;
+  private cache: MemoryCache;
+  private schema?: string;
+  private auditSink?: AuditSink;
+  private getActor?: RestRouterOptions["getActor"];
+  private controllers = new Map<string, GenericController>();
+
+  constructor(appConfig: AppConfig, options: RestRouterOptions = {}) {
+    this.appConfig = appConfig;
+    this.basePath = (options.basePath || "").replace(/\/+$/, "");
+    this.cache = options.cache || new MemoryCache({
+      defaultTTL: 300, // 5 minutos
+      maxSize: 1000,
+      cleanupInterval: 60000, // 1 minuto
+    });
+    this.schema = options.schema;
+    this.auditSink = options.auditSink;
+    this.getActor = options.getActor;
+  }
+
+  /**
+   * Atiende una petición HTTP y devuelve la respuesta JSON correspondiente
+   */
+  async handle(request: Request): Promise<Response> {
+    try {
+      const actor = this.getActor ? await this.getActor(request) : null;
+      return await runWithAuditContext({ actor }, () => this.route(request));
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Resuelve la ruta de la petición y ejecuta la operación del controlador
+   */
+  private async route(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const segments = this.getPathSegments(url.pathname);
+    if (!segments || segments.length === 0 || segments.length > 4) {
+      throw new HttpError(404, "Ruta no encontrada");
+    }
+
+    const [entityName, id, actionSegment, actionName] = segments;
+    const entityConfig = Object.hasOwn(this.appConfig.entities, entityName)
+      ? this.appConfig.entities[entityName]
+      : undefined;
+    if (!entityConfig) {
+      throw new HttpError(404, `Entidad '${entityName}' no encontrada`);
+    }
+
+    const controller = this.getController(entityName, entityConfig);
+    const method = request.method.toUpperCase();
+
+    // POST /:entity/:id/actions/:action
+    if (segments.length === 4) {
+      if (actionSegment !== "actions") {
+        throw new HttpError(404, "Ruta no encontrada");
+      }
+      if (method !== "POST") {
+        throw new HttpError(405, `Método ${method} no permitido`);
+      }
+      const params = await this.readJsonBody(request, true);
+      const result = await controller.executeCustomAction(actionName, this.parseId(entityConfig, id), params);
+      return this.json(200, result);
+    }
+    // GET /:entity/:id/history y POST /:entity/:id/restore
+    if (segments.length === 3) {
+      const expectedMethod = { history: "GET", restore: "POST" }[actionSegment];
+      if (!expectedMethod) {
+        throw new HttpError(404, "Ruta no encontrada");
+      }
+      if (method !== expectedMethod) {
+        throw new HttpError(405, `Método ${method} no permitido`);
+      }
+      const recordId = this.parseId(entityConfig, id);
+      return actionSegment === "history"
+        ? this.json(200, await controller.getAuditHistory(recordId))
+        : this.json(200, await controller.restore(recordId));
+    }
+
+    // GET /:entity/_facets?facets=CAMPO1,CAMPO2 (&limit=N) con los mismos filtros y búsqueda que el listado
+    // (el prefijo "_" de _facets y _export evita que estas rutas oculten un registro con ID "facets" o "export")
+    if (id === "_facets" && method === "GET") {
+      const fields = this.parseList(url.searchParams, "facets");
+      if (!fields?.length) {
+        throw new HttpError(400, "Indique los campos en ?facets=CAMPO1,CAMPO2");
+      }
+      const limit = this.parsePositiveInteger(url.searchParams.get("limit"), "limit");
+      return this.json(
+        200,
+        await controller.facets(fields, { ...this.parseSearchOptions(entityConfig, url.searchParams), limit }),
+      );
+    }
+
+    // GET /:entity/_export?format=csv|ndjson|xlsx (&delimiter=;&bom=true) con los filtros, búsqueda y orden del listado
+    if (id === "_export" && method === "GET") {
+      const format = url.searchParams.get("format") || "csv";
+      if (!Object.prototype.hasOwnProperty.call(EXPORT_CONTENT_TYPES, format)) {
+        throw new HttpError(400, `Formato de exportación no soportado: '${format}'`);
+      }
+      const { page: _page, pageSize: _pageSize, include: _include, ...options } = this.parseSearchOptions(
+        entityConfig,
+        url.searchParams,
+      );
+      const body = controller.export(format as ExportFormat, {
+        ...options,
+        delimiter: url.searchParams.get("delimiter") ?? undefined,
+        bom: url.searchParams.get("bom") === "true",
+        dateFormat: this.appConfig.settings?.dateFormat,
+        timestampFormat: this.appConfig.settings?.timestampFormat,
+      });
+      return new Response(body, {
+        status: 200,
+        headers: {
+          "content-type": EXPORT_CONTENT_TYPES[format as ExportFormat],
+          "content-disposition": `attachment; filename="${entityName}.${format}"`,
+        },
+      });
+    }
+
+    this.ensureOperationAllowed(entityConfig, method, id);
+
+    if (id === undefined) {
+      switch (method) {
+        case "GET": {
+          const options = this.parseSearchOptions(entityConfig, url.searchParams);
+          const cursor = this.parseCursor(url.searchParams);
+          return this.json(
+            200,
+            cursor ? await controller.findAll({ ...options, ...cursor }) : await controller.findAll(options),
+          );
+        }
+        case "POST": {
+          const data = await this.readJsonBody(request);
+          return this.json(201, await controller.create(data));
+        }
+      }
+    } else {
+      const recordId = this.parseId(entityConfig, id);
+      switch (method) {
+        case "GET": {
+          const include = this.parseList(url.searchParams, "include");
+          const fields = url.searchParams.get("fields");
+          const record = await controller.findById(recordId, {
+            ...(include ? { include } : {}),
+            ...(fields !== null ? { fields } : {}),
+            ...this.parseDeletedScope(url.searchParams),
+          });
+          if (!record) {
+            throw new RecordNotFoundError();
+          }
+          return this.json(200, record, this.getVersionHeaders(controller, record));
+        }
+        case "PUT":
+        case "PATCH": {
+          const data = await this.readJsonBody(request);
+          const record = await controller.update(recordId, data, this.parseIfMatch(request));
+          return this.json(200, record, record ? this.getVersionHeaders(controller, record) : {});
+        }
+        case "DELETE": {
+          // ?force=true elimina físicamente aunque la entidad use borrado lógico
+          const deleted = url.searchParams.get("force") === "true"
+            ? await controller.forceDelete(recordId, this.parseIfMatch(request))
+            : await controller.delete(recordId, this.parseIfMatch(request));
+          if (!deleted) {
+            throw new RecordNotFoundError();
+          }
+          return new Response(null, { status: 204 });
+        }
+      }
+    }
+
+    throw new HttpError(405, `Método ${method} no permitido`);
+  }
+
+  /**
+   * Convierte los parámetros de la URL en SearchOptions:
+   * ?page=&pageSize=&search=&sort=CAMPO|-CAMPO|CAMPO:desc&filter[CAMPO]=v&filter[CAMPO][gte]=v
+   */
+  parseSearchOptions(entityConfig: EntityConfig, params: URLSearchParams): SearchOptions {
+    const settings = this.appConfig.settings;
+    const options: SearchOptions = {};
+
+    options.page = this.parsePositiveInteger(params.get("page"), "page") ?? 1;
+    const pageSize = this.parsePositiveInteger(params.get("pageSize"), "pageSize") ?? settings?.defaultPageSize ?? 10;
+    options.pageSize = settings?.maxPageSize ? Math.min(pageSize, settings.maxPageSize) : pageSize;
+
+    const search = params.get("search");
+    if (search && entityConfig.operations?.search !== false) {
+      options.search = search;
+      options.searchFields = Object.entries(entityConfig.fields)
+        .filter(([_, fieldConfig]) => fieldConfig.searchable === true)
+        .map(([fieldName, _]) => fieldName);
+    }
+
+    const sort = params.get("sort");
+    if (sort) {
+      const [field, direction] = sort.startsWith("-") ? [sort.slice(1), "DESC"] : sort.split(":");
+      options.orderBy = field;
+      options.orderDirection = (direction || "ASC").toUpperCase() as "ASC" | "DESC";
+    }
+
+    const include = this.parseList(params, "include");
+    if (include) {
+      options.include = include;
+    }
+
+    // ?fields=name,email o el nombre de una proyección (?fields=list)
+    const fields = params.get("fields");
+    if (fields !== null) {
+      options.fields = fields;
+    }
+
+    Object.assign(options, this.parseDeletedScope(params));
+
+    const filters: Record<string, FilterCondition> = {};
+    for (const [key, value] of params.entries()) {
+      const match = FILTER_PARAM_REGEX.exec(key);
+      if (!match) continue;
+
+      const [, field, operator] = match;
+      const fieldConfig = this.findFieldConfig(entityConfig, field);
+
+      if (!operator) {
+        filters[field] = this.coerceValue(fieldConfig, value);
+        continue;
+      }
+      if (!Object.prototype.hasOwnProperty.call(FILTER_OPERATORS, operator)) {
+        throw new HttpError(400, `Operador de filtro no soportado: '${operator}'`);
+      }
+
+      const existing = filters[field];
+      const predicate: FilterOperators = typeof existing === "object" && existing !== null && !Array.isArray(existing)
+        ? existing
+        : {};
+      (predicate as Record<string, unknown>)[operator] = this.coerceOperatorValue(
+        fieldConfig,
+        operator as FilterOperator,
+        value,
+      );
+      filters[field] = predicate;
+    }
+    if (Object.keys(filters).length > 0) {
+      options.filters = filters;
+    }
+
+    return options;
+  }
+
+  /**
+   * Paginación por cursor: ?after=CURSOR (vacío para la primera página) o ?before=CURSOR, con ?includeTotal=true
+   */
+  private parseCursor(
+    params: URLSearchParams,
+  ): (Pick<CursorSearchOptions, "includeTotal"> & ({ after: string | null } | { before: string })) | null {
+    const includeTotal = params.get("includeTotal") === "true";
+    const before = params.get("before");
+    if (before) {
+      return { before, includeTotal };
+    }
+    if (params.has("after")) {
+      return { after: params.get("after") || null, includeTotal };
+    }
+    return null;
+  }
+
+  /**
+   * Versión esperada del registro a partir de la cabecera If-Match (ETag devuelto al leerlo); "*" no la exige
+   */
+  private parseIfMatch(request: Request): WriteOptions {
+    const ifMatch = request.headers.get("if-match")?.trim();
+    if (!ifMatch || ifMatch === "*") {
+      return {};
+    }
+    return { expectedVersion: ifMatch.replace(/^W\//, "").replace(/^"(.*)"$/, "$1") };
+  }
+
+  /**
+   * Cabecera ETag con la versión del registro (vacía si la entidad no define versionField)
+   */
+  private getVersionHeaders(controller: GenericController, record: Record<string, unknown>): Record<string, string> {
+    const version = controller.getVersion(record);
+    return version === null ? {} : { etag: `"${version}"` };
+  }
+
+  /**
+   * Registros con borrado lógico pedidos con ?withDeleted=true u ?onlyDeleted=true
+   */
+  private parseDeletedScope(params: URLSearchParams): Pick<SearchOptions, "withDeleted" | "onlyDeleted"> {
+    const scope: Pick<SearchOptions, "withDeleted" | "onlyDeleted"> = {};
+    if (params.get("withDeleted") === "true") scope.withDeleted = true;
+    if (params.get("onlyDeleted") === "true") scope.onlyDeleted = true;
+    return scope;
+  }
+
+  /**
+   * Lista separada por comas de un parámetro (ej: ?include=customer,lines.product o ?facets=status,region)
+   */
+  private parseList(params: URLSearchParams, name: string): string[] | undefined {
+    const value = params.get(name);
+    if (!value) {
+      return undefined;
+    }
+    return value.split(",").map((item) => item.trim()).filter((item) => item !== "");
+  }
+
+  /**
+   * Obtiene (o crea) el controlador de una entidad
+   */
+  private getController(entityName: string, entityConfig: EntityConfig): GenericController {
+    let controller = this.controllers.get(entityName);
+    if (!controller) {
+      controller = new GenericController(entityConfig, this.cache, undefined, this.schema);
+      controller.setRelatedEntities(this.appConfig.entities);
+      if (this.appConfig.settings) {
+        controller.setSettings(this.appConfig.settings);
+      }
+      if (this.auditSink) {
+        controller.setAuditSink(this.auditSink);
+      }
+      this.controllers.set(entityName, controller);
+    }
+    return controller;
+  }
+
+  /**
+   * Obtiene los segmentos de la ruta relativos a basePath
+   */
+  private getPathSegments(pathname: string): string[] | null {
+    if (this.basePath) {
+      if (pathname !== this.basePath && !pathname.startsWith(`${this.basePath}/`)) {
+        return null;
+      }
+      pathname = pathname.slice(this.basePath.length);
+    }
+    return pathname.split("/").filter((segment) => segment !== "").map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        throw new HttpError(400, `Segmento de ruta mal codificado: '${segment}'`);
+      }
+    });
+  }
+
+  /**
+   * Verifica que la operación esté habilitada en EntityConfig.operations
+   */
+  private ensureOperationAllowed(entityConfig: EntityConfig, method: string, id?: string): void {
+    const operation = METHOD_OPERATIONS[method];
+    if (!operation || (method === "POST" && id !== undefined) || (method !== "GET" && method !== "POST" && !id)) {
+      throw new HttpError(405, `Método ${method} no permitido`);
+    }
+    if (entityConfig.operations?.[operation] === false) {
+      throw new OperationNotAllowedError(entityConfig.tableName, operation);
+    }
+  }
+
+  /**
+   * Convierte el ID de la URL al tipo de la clave primaria; las claves compuestas
+   * se reciben como valores separados por comas en el orden de primaryKey (ej: /order_lines/10,3)
+   */
+  private parseId(entityConfig: EntityConfig, id: string): RecordId {
+    const keyFields = SqlBuilder.getPrimaryKeyFields(entityConfig);
+    const values = keyFields.length === 1 ? [id] : id.split(",");
+    if (values.length !== keyFields.length || values.some((value) => value === "")) {
+      throw new HttpError(400, `El ID debe tener los valores de la clave: ${keyFields.join(",")}`);
+    }
+
+    const parsed = values.map((value, index) => {
+      const fieldConfig = entityConfig.fields[keyFields[index]];
+      return this.isNumericField(fieldConfig) && !isNaN(Number(value)) ? Number(value) : value;
+    });
+    return keyFields.length === 1 ? parsed[0] : Object.fromEntries(keyFields.map((field, i) => [field, parsed[i]]));
+  }
+
+  /**
+   * Lee el cuerpo JSON de la petición
+   */
+  private async readJsonBody(request: Request, optional = false): Promise<Record<string, unknown>> {
+    const text = await request.text();
+    if (!text.trim()) {
+      if (optional) return {};
+      throw new HttpError(400, "El cuerpo de la petición es requerido");
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new HttpError(400, "El cuerpo de la petición no es un JSON válido");
+    }
+
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      throw new HttpError(400, "El cuerpo de la petición debe ser un objeto JSON");
+    }
+    return body as Record<string, unknown>;
+  }
+
+  /**
+   * Busca la configuración de un campo sin distinguir mayúsculas
+   */
+  private findFieldConfig(entityConfig: EntityConfig, field: string): FieldConfig | undefined {
+    const upperField = field.toUpperCase();
+    const match = Object.keys(entityConfig.fields).find((name) => name.toUpperCase() === upperField);
+    return match ? entityConfig.fields[match] : undefined;
+  }
+
+  /**
+   * Convierte el valor de un operador de filtro según el tipo del campo
+   */
+  private coerceOperatorValue(
+    fieldConfig: FieldConfig | undefined,
+    operator: FilterOperator,
+    value: string,
+  ): FilterValue | FilterValue[] | boolean {
+    switch (operator) {
+      case "in":
+      case "notIn":
+        return value.split(",").map((item) => this.coerceValue(fieldConfig, item.trim()));
+      case "isNull":
+      case "isNotNull":
+        return value !== "false" && value !== "0";
+      case "like":
+      case "notLike":
+        return value;
+      default:
+        return this.coerceValue(fieldConfig, value);
+    }
+  }
+
+  /**
+   * Convierte un valor de la URL según el tipo del campo
+   */
+  private coerceValue(fieldConfig: FieldConfig | undefined, value: string): FilterValue {
+    if (this.isNumericField(fieldConfig) && value.trim() !== "" && !isNaN(Number(value))) {
+      return Number(value);
+    }
+    if (fieldConfig?.type.toLowerCase() === "boolean" && (value === "true" || value === "false")) {
+      return value === "true";
+    }
+    return value;
+  }
+
+  /**
+   * Indica si el campo es numérico
+   */
+  private isNumericField(fieldConfig: FieldConfig | undefined): boolean {
+    const type = fieldConfig?.type.toLowerCase();
+    return type === "number" || type === "integer";
+  }
+
+  /**
+   * Valida un entero positivo de la URL
+   */
+  private parsePositiveInteger(value: string | null, name: string): number | undefined {
+    if (value === null || value === "") {
+      return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new HttpError(400, `El parámetro '${name}' debe ser un entero positivo`);
+    }
+    return parsed;
+  }
+
+  /**
+   * Traduce un error a una respuesta JSON con el código de estado correspondiente
+   */
+  private errorResponse(error: unknown): Response {
+    if (error instanceof HttpError) {
+      return this.json(error.status, { error: error.message });
+    }
+    if (error instanceof DataValidationError) {
+      return this.json(400, { error: error.message, details: error.errors });
+    }
+    if (error instanceof InvalidIdentifierError) {
+      return this.json(400, { error: error.message, field: error.identifier });
+    }
+    if (error instanceof RecordNotFoundError) {
+      return this.json(404, { error: error.message });
+    }
+    if (error instanceof OperationNotAllowedError) {
+      return this.json(405, { error: error.message });
+    }
+    if (error instanceof ConcurrencyConflictError) {
+      return this.json(412, { error: error.message, currentVersion: error.currentVersion });
+    }
+    if (error instanceof HookVetoError) {
+      return this.json(422, { error: error.message, hook: error.hook });
+    }
+
+    // El detalle (mensajes de Oracle, SQL) solo se registra en el servidor
+    console.error("Error en la API REST:", error);
+    return this.json(500, { error: "Error interno del servidor" });
+  }
+
+  /**
+   * Crea una respuesta JSON
+   */
+  private json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "content-type": "application/json; charset=utf-8", ...headers },
+    });
+  }
+}
+
+/**
+ * Crea un handler HTTP para usar con Deno.serve a partir de la configuración de entidades
+ */
+export function createRestHandler(appConfig: AppConfig, options: RestRouterOptions = {}): RestHandler {
+  const router = new RestRouter(appConfig, options);
+  return (request: Request) => router.handle(request);
+}
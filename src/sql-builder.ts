@@ -2,54 +2,101 @@
  * SqlBuilder - Constructor dinámico de consultas SQL basado en configuración de entidades
  */
 
-import type { EntityConfig, QueryParams, SearchOptions, SqlQuery } from "./types.ts";
+import { AGGREGATE_FUNCTIONS, FILTER_OPERATORS, SQL_OPERATORS } from "./config.ts";
+import { ConcurrencyConflictError, InvalidIdentifierError } from "./errors.ts";
+import { getDefaultDialect, PAGINATION_BINDS, SqlDialect } from "./dialect.ts";
+import type {
+  AggregateMetric,
+  AggregateOptions,
+  BindDefinition,
+  CursorSearchOptions,
+  EntityConfig,
+  FilterCondition,
+  FilterExpression,
+  FilterOperator,
+  FilterOperators,
+  FilterValue,
+  QueryParams,
+  RecordId,
+  SearchOptions,
+  SoftDeleteConfig,
+  SqlBatch,
+  SqlQuery,
+  UpsertOptions,
+} from "./types.ts";
+
+// Pseudocolumna de Oracle con el SCN de la última modificación (por fila con ROWDEPENDENCIES)
+const ORA_ROWSCN = "ORA_ROWSCN";
+
+// Alias de una métrica de aggregate()
+const AGGREGATE_ALIAS_REGEX = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+// Similitud mínima por defecto de la búsqueda fuzzy (UTL_MATCH.JARO_WINKLER_SIMILARITY, 0-100)
+const DEFAULT_FUZZY_THRESHOLD = 85;
 
 export class SqlBuilder {
   private entityConfig: EntityConfig;
+  private dialect?: SqlDialect | (() => SqlDialect);
 
-  constructor(entityConfig: EntityConfig) {
+  /**
+   * El dialecto puede ser fijo o una función que lo resuelve al construir cada consulta (p. ej. el de la
+   * conexión, que puede detectarse después); sin dialecto se usa el dialecto por defecto (ver setDefaultDialect)
+   */
+  constructor(entityConfig: EntityConfig, dialect?: SqlDialect | (() => SqlDialect)) {
     this.entityConfig = entityConfig;
+    this.dialect = dialect;
   }
 
   /**
    * Construye una consulta SELECT con filtros, búsqueda y paginación
    */
   buildSelectQuery(options: SearchOptions = {}): SqlQuery {
-    const {
-      search,
-      searchFields = [],
-      filters = {},
-      page = 1,
-      pageSize = 10,
-      orderBy = this.entityConfig.primaryKey,
-      orderDirection = "ASC",
-    } = options;
-
-    // Construir lista de columnas explícitamente
-    const columns = Object.keys(this.entityConfig.fields).join(", ");
-
-    let sql = `SELECT ${columns} FROM ${this.entityConfig.tableName}`;
-    const params: QueryParams = {};
-    const conditions: string[] = [];
+    const { page = 1, pageSize = 10 } = options;
+    const { sql, params, aliases } = this.buildOrderedSelect(options);
 
-    // Construir condiciones de búsqueda
-    if (search && searchFields.length > 0) {
-      const searchConditions = searchFields.map((field, index) => {
-        const paramName = `search_${index}`;
-        params[paramName] = `%${search}%`;
-        return `UPPER(${field}) LIKE UPPER(:${paramName})`;
-      });
-      conditions.push(`(${searchConditions.join(" OR ")})`);
+    // Aplicar paginación según el dialecto (OFFSET/FETCH en 12c+, ROWNUM en 11g)
+    params[PAGINATION_BINDS.offset] = (page - 1) * pageSize;
+    params[PAGINATION_BINDS.limit] = pageSize;
+
+    return { sql: this.getDialect().paginate(sql, aliases), params };
+  }
+
+  /**
+   * Construye la consulta SELECT de buildSelectQuery sin paginación, para recorrer las filas con stream();
+   * con pageSize (operations.paginate === false) se limita a las primeras pageSize filas
+   */
+  buildStreamQuery(options: SearchOptions = {}): SqlQuery {
+    const { sql, params, aliases } = this.buildOrderedSelect(options);
+    if (options.pageSize === undefined) {
+      return { sql, params };
     }
+    params[PAGINATION_BINDS.limit] = options.pageSize;
+    return { sql: this.getDialect().limit(sql, aliases), params };
+  }
 
-    // Construir filtros
-    Object.entries(filters).forEach(([key, value], index) => {
-      if (value !== null && value !== undefined) {
-        const paramName = `filter_${index}`;
-        params[paramName] = value;
-        conditions.push(`${key} = :${paramName}`);
-      }
-    });
+  /**
+   * SELECT con proyección, filtros, búsqueda y ordenamiento; devuelve también los alias de las columnas
+   */
+  private buildOrderedSelect(options: SearchOptions): SqlQuery & { aliases: string } {
+    const { orderBy, orderDirection = "ASC" } = options;
+
+    // Validar ordenamiento antes de interpolarlo en el SQL (por defecto, todos los campos de la clave primaria,
+    // precedidos por la relevancia si la búsqueda es contains o fuzzy)
+    const direction = this.normalizeOrderDirection(orderDirection);
+    const orderFields = orderBy === undefined ? this.getPrimaryKeyFields() : [this.resolveField(orderBy, "orderBy")];
+    let orderClause = orderFields.map((field) => `${this.column(field)} ${direction}`).join(", ");
+    const relevance = orderBy === undefined ? this.getSearchRelevance(options) : null;
+    if (relevance) {
+      orderClause = `${relevance} DESC, ${orderClause}`;
+    }
+
+    // Construir lista de columnas explícitamente (alias = nombre lógico del campo)
+    const projection = this.resolveProjection(options.fields, options.include);
+    const columns = this.getSelectColumns(undefined, projection);
+    const aliases = this.getSelectAliases(projection);
+
+    let sql = `SELECT ${columns} FROM ${this.table()}`;
+    const { conditions, params } = this.buildWhereConditions(options);
 
     // Aplicar condiciones WHERE
     if (conditions.length > 0) {
@@ -57,67 +104,155 @@ export class SqlBuilder {
     }
 
     // Aplicar ordenamiento
-    sql += ` ORDER BY ${orderBy} ${orderDirection}`;
-
-    // Aplicar paginación (Oracle syntax) - Usar columnas específicas
-    const offset = (page - 1) * pageSize;
-    sql = `
-      SELECT ${columns} FROM (
-        SELECT ${columns}, ROWNUM rnum FROM (
-          ${sql}
-        ) WHERE ROWNUM <= :limit
-      ) WHERE rnum > :offset
-    `;
-    params.limit = offset + pageSize;
-    params.offset = offset;
+    sql += ` ORDER BY ${orderClause}`;
+
+    return { sql, params, aliases };
+  }
+
+  /**
+   * Construye una consulta paginada por cursor (keyset): en lugar de ROWNUM/offset filtra por los valores de
+   * ordenamiento del último registro visto y pide una fila más para saber si hay otra página. Con before se
+   * recorre en orden inverso (quien consume la consulta debe invertir las filas).
+   */
+  buildKeysetQuery(options: CursorSearchOptions = {}): SqlQuery {
+    const { pageSize = 10, orderDirection = "ASC" } = options;
+    const backwards = options.before !== undefined;
+    const cursor = backwards ? options.before : options.after;
+
+    const keysetFields = this.getKeysetFields(options.orderBy);
+    const direction = this.normalizeOrderDirection(orderDirection);
+    const scanDirection = backwards ? (direction === "ASC" ? "DESC" : "ASC") : direction;
+
+    // El cursor se calcula con los campos de ordenamiento, que se seleccionan aunque no estén en la proyección
+    const projection = this.resolveProjection(options.fields, options.include, keysetFields);
+
+    const { conditions, params } = this.buildWhereConditions(options);
+    if (cursor) {
+      conditions.push(
+        this.buildKeysetCondition(keysetFields, this.decodeCursor(cursor, keysetFields), scanDirection, params),
+      );
+    }
+
+    let sql = `SELECT ${this.getSelectColumns(undefined, projection)} FROM ${this.table()}`;
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(" AND ")}`;
+    }
+    sql += ` ORDER BY ${keysetFields.map((field) => `${this.column(field)} ${scanDirection}`).join(", ")}`;
+
+    sql = this.getDialect().limit(sql, this.getSelectAliases(projection));
+    params[PAGINATION_BINDS.limit] = pageSize + 1;
 
     return { sql, params };
   }
 
+  /**
+   * Cursor opaco con los valores de ordenamiento (orderBy y clave primaria) de un registro
+   */
+  encodeCursor(record: Record<string, unknown>, orderBy?: string): string {
+    const values = this.getKeysetFields(orderBy).map((field) => {
+      const value = record[field];
+      return value instanceof Date ? value.toISOString() : value ?? null;
+    });
+    const bytes = new TextEncoder().encode(JSON.stringify(values));
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  }
+
   /**
    * Construye una consulta COUNT para paginación
    */
   buildCountQuery(options: SearchOptions = {}): SqlQuery {
-    const { search, searchFields = [], filters = {} } = options;
+    let sql = `SELECT COUNT(*) AS "total" FROM ${this.table()}`;
+    const { conditions, params } = this.buildWhereConditions(options);
 
-    let sql = `SELECT COUNT(*) as total FROM ${this.entityConfig.tableName}`;
-    const params: QueryParams = {};
-    const conditions: string[] = [];
+    // Aplicar condiciones WHERE
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(" AND ")}`;
+    }
 
-    // Construir condiciones de búsqueda
-    if (search && searchFields.length > 0) {
-      const searchConditions = searchFields.map((field, index) => {
-        const paramName = `search_${index}`;
-        params[paramName] = `%${search}%`;
-        return `UPPER(${field}) LIKE UPPER(:${paramName})`;
-      });
-      conditions.push(`(${searchConditions.join(" OR ")})`);
+    return { sql, params };
+  }
+
+  /**
+   * Construye una consulta de agregación (GROUP BY / HAVING) con los mismos filtros que buildSelectQuery;
+   * cada fila tiene los campos agrupados y una columna por métrica con su alias
+   */
+  buildAggregateQuery(options: AggregateOptions): SqlQuery {
+    const groupFields = (options.groupBy || []).map((field) => this.resolveField(field, "groupBy"));
+    const metrics = Object.entries(options.metrics || {});
+    if (metrics.length === 0) {
+      throw new Error("La agregación requiere al menos una métrica");
     }
 
-    // Construir filtros
-    Object.entries(filters).forEach(([key, value], index) => {
-      if (value !== null && value !== undefined) {
-        const paramName = `filter_${index}`;
-        params[paramName] = value;
-        conditions.push(`${key} = :${paramName}`);
+    const expressions = new Map<string, string>();
+    metrics.forEach(([alias, metric]) => {
+      if (!AGGREGATE_ALIAS_REGEX.test(alias) || groupFields.includes(alias)) {
+        throw new InvalidIdentifierError(alias, "metrics");
       }
+      expressions.set(alias, this.buildAggregateExpression(metric));
     });
 
-    // Aplicar condiciones WHERE
+    const columns = [
+      ...groupFields.map((field) => `${this.column(field)} AS ${this.quoteIdentifier(field)}`),
+      ...[...expressions].map(([alias, expression]) => `${expression} AS ${this.quoteIdentifier(alias)}`),
+    ];
+    let sql = `SELECT ${columns.join(", ")} FROM ${this.table()}`;
+
+    const { conditions, params } = this.buildWhereConditions(options);
     if (conditions.length > 0) {
       sql += ` WHERE ${conditions.join(" AND ")}`;
     }
 
+    if (groupFields.length > 0) {
+      sql += ` GROUP BY ${groupFields.map((field) => this.column(field)).join(", ")}`;
+    }
+
+    // HAVING sobre las métricas, con los mismos operadores que los filtros
+    let havingIndex = 0;
+    const havingConditions = Object.entries(options.having || {}).flatMap(([alias, condition]) => {
+      const expression = expressions.get(alias);
+      if (!expression) {
+        throw new InvalidIdentifierError(alias, "having");
+      }
+      return this.buildPredicates(expression, condition, params, () => `having_${havingIndex++}`);
+    });
+    if (havingConditions.length > 0) {
+      sql += ` HAVING ${havingConditions.join(" AND ")}`;
+    }
+
+    // Orden por alias de una métrica o por un campo agrupado (por defecto, los campos agrupados)
+    const direction = this.normalizeOrderDirection(options.orderDirection ?? "ASC");
+    if (options.orderBy !== undefined) {
+      const orderBy = expressions.has(options.orderBy)
+        ? this.quoteIdentifier(options.orderBy)
+        : this.column(this.resolveGroupField(options.orderBy, groupFields));
+      sql += ` ORDER BY ${orderBy} ${direction}`;
+    } else if (groupFields.length > 0) {
+      sql += ` ORDER BY ${groupFields.map((field) => `${this.column(field)} ${direction}`).join(", ")}`;
+    }
+
+    if (options.limit !== undefined) {
+      if (!Number.isInteger(options.limit) || options.limit < 1) {
+        throw new Error("El límite de la agregación debe ser un entero positivo");
+      }
+      const aliases = [...groupFields, ...expressions.keys()].map((alias) => this.quoteIdentifier(alias));
+      sql = this.getDialect().limit(sql, aliases.join(", "));
+      params[PAGINATION_BINDS.limit] = options.limit;
+    }
+
     return { sql, params };
   }
 
   /**
-   * Construye una consulta SELECT por ID
+   * Construye una consulta SELECT por ID (excluye los registros con borrado lógico salvo withDeleted/onlyDeleted)
    */
-  buildSelectByIdQuery(id: string | number): SqlQuery {
-    const columns = Object.keys(this.entityConfig.fields).join(", ");
-    const sql = `SELECT ${columns} FROM ${this.entityConfig.tableName} WHERE ${this.entityConfig.primaryKey} = :id`;
-    const params: QueryParams = { id };
+  buildSelectByIdQuery(
+    id: RecordId,
+    options: Pick<SearchOptions, "fields" | "include" | "withDeleted" | "onlyDeleted"> = {},
+  ): SqlQuery {
+    const columns = this.getSelectColumns(undefined, this.resolveProjection(options.fields, options.include));
+    const params = this.getIdParams(id);
+    const conditions = [this.getIdCondition(), ...this.getSoftDeleteConditions(options, params)];
+    const sql = `SELECT ${columns} FROM ${this.table()} WHERE ${conditions.join(" AND ")}`;
     return { sql, params };
   }
 
@@ -132,14 +267,13 @@ export class SqlBuilder {
       throw new Error("No hay campos válidos para insertar");
     }
 
-    const fieldNames = fieldsToInsert.join(", ");
-    const placeholders = fieldsToInsert.map((field) => `:${field}`).join(", ");
+    const { fieldNames, placeholders } = this.getInsertColumns(fieldsToInsert);
 
-    let sql = `INSERT INTO ${this.entityConfig.tableName} (${fieldNames}) VALUES (${placeholders})`;
+    let sql = `INSERT INTO ${this.table()} (${fieldNames}) VALUES (${placeholders})`;
 
     // Si hay auto-increment, agregar RETURNING para obtener el ID generado
     if (this.entityConfig.autoIncrement) {
-      sql += ` RETURNING ${this.entityConfig.primaryKey} INTO :new_id`;
+      sql += ` RETURNING ${this.column(this.getGeneratedKeyField())} INTO :new_id`;
     }
 
     const params: QueryParams = {};
@@ -151,22 +285,26 @@ export class SqlBuilder {
   }
 
   /**
-   * Construye una consulta UPDATE
+   * Construye una consulta UPDATE; con versionField incrementa la versión y, si se indica expectedVersion,
+   * solo actualiza el registro si conserva esa versión
    */
-  buildUpdateQuery(id: string | number, data: Record<string, unknown>): SqlQuery {
+  buildUpdateQuery(id: RecordId, data: Record<string, unknown>, expectedVersion?: string | number): SqlQuery {
+    const keyFields = this.getPrimaryKeyFields();
     const writableFields = this.getWritableFields();
-    const fieldsToUpdate = writableFields.filter((field) =>
-      data[field] !== undefined && field !== this.entityConfig.primaryKey
-    );
+    const fieldsToUpdate = writableFields.filter((field) => data[field] !== undefined && !keyFields.includes(field));
 
     if (fieldsToUpdate.length === 0) {
       throw new Error("No hay campos válidos para actualizar");
     }
 
-    const setClause = fieldsToUpdate.map((field) => `${field} = :${field}`).join(", ");
-    const sql = `UPDATE ${this.entityConfig.tableName} SET ${setClause} WHERE ${this.entityConfig.primaryKey} = :id`;
+    const setClause = [
+      ...fieldsToUpdate.map((field) => `${this.column(field)} = :${field}`),
+      ...this.getVersionAssignments(),
+    ].join(", ");
+    const params = this.getIdParams(id);
+    const sql = `UPDATE ${this.table()} SET ${setClause} WHERE ${this.getIdCondition()}` +
+      this.getVersionCondition(expectedVersion, params);
 
-    const params: QueryParams = { id };
     fieldsToUpdate.forEach((field) => {
       params[field] = data[field] as string | number | boolean | null;
     });
@@ -175,100 +313,1298 @@ export class SqlBuilder {
   }
 
   /**
-   * Construye una consulta DELETE
+   * Construye una consulta DELETE (con expectedVersion, solo si el registro conserva esa versión)
    */
-  buildDeleteQuery(id: string | number): SqlQuery {
-    const sql = `DELETE FROM ${this.entityConfig.tableName} WHERE ${this.entityConfig.primaryKey} = :id`;
-    const params: QueryParams = { id };
+  buildDeleteQuery(id: RecordId, expectedVersion?: string | number): SqlQuery {
+    const params = this.getIdParams(id);
+    const sql = `DELETE FROM ${this.table()} WHERE ${this.getIdCondition()}` +
+      this.getVersionCondition(expectedVersion, params);
     return { sql, params };
   }
 
   /**
-   * Construye una consulta para acción personalizada
+   * Construye el UPDATE de borrado lógico de un registro activo
    */
-  buildCustomActionQuery(actionSql: string, id: string | number, additionalParams: QueryParams = {}): SqlQuery {
-    const params: QueryParams = { id, ...additionalParams };
-    return { sql: actionSql, params };
+  buildSoftDeleteQuery(id: RecordId, expectedVersion?: string | number): SqlQuery {
+    const params = this.getIdParams(id);
+    const setClause = [this.getSoftDeleteAssignment("deleted", params), ...this.getVersionAssignments()].join(", ");
+    const sql = `UPDATE ${this.table()} SET ${setClause} ` +
+      `WHERE ${this.getIdCondition()} AND ${this.getSoftDeleteCondition("active", params)}` +
+      this.getVersionCondition(expectedVersion, params);
+    return { sql, params };
   }
 
   /**
-   * Obtiene los campos que se pueden escribir (no readonly, no autoIncrement)
+   * Construye el UPDATE que restaura un registro con borrado lógico
    */
-  private getWritableFields(): string[] {
-    return Object.entries(this.entityConfig.fields)
-      .filter(([_, fieldConfig]) => !fieldConfig.readonly && !fieldConfig.autoIncrement)
-      .map(([fieldName, _]) => fieldName);
+  buildRestoreQuery(id: RecordId): SqlQuery {
+    const params = this.getIdParams(id);
+    const setClause = [this.getSoftDeleteAssignment("active", params), ...this.getVersionAssignments()].join(", ");
+    const sql = `UPDATE ${this.table()} SET ${setClause} ` +
+      `WHERE ${this.getIdCondition()} AND ${this.getSoftDeleteCondition("deleted", params)}`;
+    return { sql, params };
   }
 
   /**
-   * Valida que los campos requeridos estén presentes
+   * Construye un INSERT masivo para executeMany; las filas sin un campo presente en otras lo insertan como NULL
    */
-  validateRequiredFields(data: Record<string, unknown>, isUpdate = false): void {
-    const requiredFields = Object.entries(this.entityConfig.fields)
-      .filter(([_, fieldConfig]) =>
-        fieldConfig.required &&
-        !fieldConfig.autoIncrement &&
-        (!isUpdate || data[_] !== undefined)
-      )
-      .map(([fieldName, _]) => fieldName);
+  buildInsertManyQuery(rows: Record<string, unknown>[]): SqlBatch {
+    const fieldsToInsert = this.getWritableFields().filter((field) => rows.some((row) => row[field] !== undefined));
 
-    const missingFields = requiredFields.filter((field) =>
-      data[field] === undefined || data[field] === null || data[field] === ""
-    );
+    if (fieldsToInsert.length === 0) {
+      throw new Error("No hay campos válidos para insertar");
+    }
 
-    if (missingFields.length > 0) {
-      throw new Error(`Campos requeridos faltantes: ${missingFields.join(", ")}`);
+    const { fieldNames, placeholders } = this.getInsertColumns(fieldsToInsert);
+
+    let sql = `INSERT INTO ${this.table()} (${fieldNames}) VALUES (${placeholders})`;
+    const bindDefs = this.getBindDefinitions(fieldsToInsert);
+
+    // Con auto-increment, RETURNING devuelve el ID generado de cada fila
+    if (this.entityConfig.autoIncrement) {
+      sql += ` RETURNING ${this.column(this.getGeneratedKeyField())} INTO :new_id`;
+      bindDefs.new_id = { type: "NUMBER", dir: "OUT" };
     }
+
+    const binds = rows.map((row) => {
+      const params: QueryParams = {};
+      fieldsToInsert.forEach((field) => {
+        params[field] = row[field] === undefined ? null : row[field] as string | number | boolean | null;
+      });
+      return params;
+    });
+
+    return { sql, binds, bindDefs };
   }
 
   /**
-   * Aplica filtros predefinidos de la configuración
+   * Construye un UPDATE masivo para executeMany; todas las filas deben actualizar los mismos campos
    */
-  applyPredefinedFilter(filterName: string, baseOptions: SearchOptions = {}): SearchOptions {
-    const filterConfig = this.entityConfig.filters?.[filterName];
-    if (!filterConfig) {
-      throw new Error(`Filtro '${filterName}' no encontrado`);
+  buildUpdateManyQuery(rows: Array<{ id: RecordId; data: Record<string, unknown> }>): SqlBatch {
+    const keyFields = this.getPrimaryKeyFields();
+    const fieldsToUpdate = this.getWritableFields().filter((field) =>
+      !keyFields.includes(field) && rows.some((row) => row.data[field] !== undefined)
+    );
+
+    if (fieldsToUpdate.length === 0) {
+      throw new Error("No hay campos válidos para actualizar");
+    }
+    if (rows.some((row) => fieldsToUpdate.some((field) => row.data[field] === undefined))) {
+      throw new Error(`Todas las filas deben incluir los campos: ${fieldsToUpdate.join(", ")}`);
     }
 
-    const filters = { ...baseOptions.filters };
-    filters[filterConfig.field] = filterConfig.value;
+    const setClause = [
+      ...fieldsToUpdate.map((field) => `${this.column(field)} = :${field}`),
+      ...this.getVersionAssignments(),
+    ].join(", ");
+
+    // Los registros con borrado lógico no se actualizan (cuentan como inexistentes, igual que en update)
+    const softDeleteParams: QueryParams = {};
+    const conditions = [this.getIdCondition(), ...this.getSoftDeleteConditions({}, softDeleteParams)];
+    const sql = `UPDATE ${this.table()} SET ${setClause} WHERE ${conditions.join(" AND ")}`;
+
+    const binds = rows.map((row) => {
+      const params = { ...this.getIdParams(row.id), ...softDeleteParams };
+      fieldsToUpdate.forEach((field) => {
+        params[field] = row.data[field] as string | number | boolean | null;
+      });
+      return params;
+    });
 
     return {
-      ...baseOptions,
-      filters,
+      sql,
+      binds,
+      bindDefs: {
+        ...this.getIdBindDefinitions(),
+        ...this.getBindDefinitions(fieldsToUpdate),
+        ...this.getSoftDeleteBindDefinitions(softDeleteParams),
+      },
     };
   }
 
   /**
-   * Construye condiciones WHERE dinámicas
+   * Construye un DELETE masivo para executeMany
    */
-  private buildWhereConditions(
-    search?: string,
-    searchFields: string[] = [],
-    filters: Record<string, string | number | boolean> = {},
-  ): { conditions: string[]; params: QueryParams } {
-    const conditions: string[] = [];
+  buildDeleteManyQuery(ids: RecordId[]): SqlBatch {
+    const sql = `DELETE FROM ${this.table()} WHERE ${this.getIdCondition()}`;
+    const binds = ids.map((id) => this.getIdParams(id));
+    return { sql, binds, bindDefs: this.getIdBindDefinitions() };
+  }
+
+  /**
+   * Construye un borrado lógico masivo para executeMany
+   */
+  buildSoftDeleteManyQuery(ids: RecordId[]): SqlBatch {
+    const softDeleteParams: QueryParams = {};
+    const setClause = [this.getSoftDeleteAssignment("deleted", softDeleteParams), ...this.getVersionAssignments()]
+      .join(", ");
+    const sql = `UPDATE ${this.table()} SET ${setClause} ` +
+      `WHERE ${this.getIdCondition()} AND ${this.getSoftDeleteCondition("active", softDeleteParams)}`;
+
+    const bindDefs = { ...this.getIdBindDefinitions(), ...this.getSoftDeleteBindDefinitions(softDeleteParams) };
+    const binds = ids.map((id) => ({ ...this.getIdParams(id), ...softDeleteParams }));
+    return { sql, binds, bindDefs };
+  }
+
+  /**
+   * Construye un MERGE que inserta o actualiza según los campos de coincidencia (matchOn)
+   */
+  buildUpsertQuery(data: Record<string, unknown>, options: UpsertOptions = {}): SqlQuery {
+    const matchOn = this.resolveMatchOn([data], options.matchOn);
+    const fields = this.getUpsertFields([data], matchOn);
+
+    // Con auto-increment, el bloque devuelve en :new_id la clave de la fila escrita (la insertada puede recibir
+    // un ID generado distinto del enviado)
+    const returning = options.reportAction && this.entityConfig.autoIncrement
+      ? ` RETURNING ${this.column(this.getGeneratedKeyField())} INTO :new_id`
+      : "";
+
     const params: QueryParams = {};
+    const sql = this.buildUpsertSql(fields, matchOn, options.reportAction, params, returning);
+    fields.forEach((field) => {
+      params[field] = data[field] as string | number | boolean | null;
+    });
 
-    // Condiciones de búsqueda
-    if (search && searchFields.length > 0) {
-      const searchConditions = searchFields.map((field, index) => {
-        const paramName = `search_${index}`;
-        params[paramName] = `%${search}%`;
-        return `UPPER(${field}) LIKE UPPER(:${paramName})`;
+    return { sql, params };
+  }
+
+  /**
+   * Construye un MERGE masivo para executeMany; todas las filas deben incluir los mismos campos
+   */
+  buildUpsertManyQuery(rows: Record<string, unknown>[], options: UpsertOptions = {}): SqlBatch {
+    const matchOn = this.resolveMatchOn(rows, options.matchOn);
+    const fields = this.getUpsertFields(rows, matchOn);
+
+    if (rows.some((row) => fields.some((field) => row[field] === undefined))) {
+      throw new Error(`Todas las filas deben incluir los campos: ${fields.join(", ")}`);
+    }
+
+    const softDeleteParams: QueryParams = {};
+    const sql = this.buildUpsertSql(fields, matchOn, options.reportAction, softDeleteParams);
+
+    const bindDefs = { ...this.getBindDefinitions(fields), ...this.getSoftDeleteBindDefinitions(softDeleteParams) };
+    if (options.reportAction) {
+      bindDefs.upsert_matched = { type: "NUMBER", dir: "OUT" };
+    }
+
+    const binds = rows.map((row) => {
+      const params: QueryParams = { ...softDeleteParams };
+      fields.forEach((field) => {
+        params[field] = row[field] as string | number | boolean | null;
       });
-      conditions.push(`(${searchConditions.join(" OR ")})`);
+      return params;
+    });
+
+    return { sql, binds, bindDefs };
+  }
+
+  /**
+   * Construye una consulta para acción personalizada
+   */
+  buildCustomActionQuery(actionSql: string, id: RecordId, additionalParams: QueryParams = {}): SqlQuery {
+    // Con clave compuesta, cada campo de la clave se expone como bind con su propio nombre
+    const idParams: QueryParams = this.getPrimaryKeyFields().length > 1
+      ? this.normalizeId(id)
+      : { id: id as string | number };
+    const params: QueryParams = { ...idParams, ...additionalParams };
+    return { sql: actionSql, params };
+  }
+
+  /**
+   * Construye la consulta de registros relacionados: WHERE campo IN (...) con una variable bind por valor
+   */
+  buildRelatedQuery(field: string, values: FilterValue[]): SqlQuery {
+    const column = this.column(this.resolveField(field, "relación"));
+    const params: QueryParams = {};
+    const placeholders = this.bindRelatedValues(values, params);
+
+    const conditions = [`${column} IN (${placeholders})`, ...this.getSoftDeleteConditions({}, params)];
+    const sql = `SELECT ${this.getSelectColumns()} FROM ${this.table()} WHERE ${conditions.join(" AND ")}`;
+    return { sql, params };
+  }
+
+  /**
+   * Construye la consulta de registros relacionados a través de una entidad intermedia (manyToMany).
+   * Cada fila incluye "__owner" con el valor del campo de la intermedia que apunta a la entidad origen.
+   */
+  buildThroughQuery(
+    targetField: string,
+    through: SqlBuilder,
+    ownerField: string,
+    otherField: string,
+    values: FilterValue[],
+  ): SqlQuery {
+    const targetColumn = this.column(this.resolveField(targetField, "relación"));
+    const ownerColumn = through.getColumn(ownerField);
+    const otherColumn = through.getColumn(otherField);
+    const params: QueryParams = {};
+    const placeholders = this.bindRelatedValues(values, params);
+
+    const sql = `SELECT ${this.getSelectColumns("T")}, J.${ownerColumn} AS "__owner" ` +
+      `FROM ${this.table()} T JOIN ${through.getTable()} J ON J.${otherColumn} = T.${targetColumn} ` +
+      `WHERE ${
+        [`J.${ownerColumn} IN (${placeholders})`, ...this.getSoftDeleteConditions({}, params, "T")].join(" AND ")
+      }`;
+    return { sql, params };
+  }
+
+  /**
+   * Dialecto SQL con el que se construyen las consultas
+   */
+  getDialect(): SqlDialect {
+    if (typeof this.dialect === "function") {
+      return this.dialect();
+    }
+    return this.dialect || getDefaultDialect();
+  }
+
+  /**
+   * Versión de un registro leído como texto compatible con ETag (null si la entidad no usa versionField)
+   */
+  getVersionToken(record: Record<string, unknown>): string | null {
+    const versionField = this.entityConfig.versionField;
+    const value = versionField ? record[versionField] : undefined;
+    if (value === null || value === undefined) {
+      return null;
+    }
+    return value instanceof Date ? String(value.getTime()) : String(value);
+  }
+
+  /**
+   * Columna de la base de datos de un campo configurado (validado contra la entidad)
+   */
+  getColumn(field: string): string {
+    return this.column(this.resolveField(field, "columna"));
+  }
+
+  /**
+   * Nombre de la tabla de la entidad tal como se usa en el SQL
+   */
+  getTable(): string {
+    return this.table();
+  }
+
+  /**
+   * Campos de la clave primaria de una entidad, en el orden configurado
+   */
+  static getPrimaryKeyFields(entityConfig: EntityConfig): string[] {
+    return Array.isArray(entityConfig.primaryKey) ? entityConfig.primaryKey : [entityConfig.primaryKey];
+  }
+
+  /**
+   * Campos de la clave primaria de la entidad
+   */
+  getPrimaryKeyFields(): string[] {
+    return SqlBuilder.getPrimaryKeyFields(this.entityConfig);
+  }
+
+  /**
+   * Campo de la clave primaria generado por la base de datos (RETURNING ... INTO :new_id)
+   */
+  getGeneratedKeyField(): string {
+    const keyFields = this.getPrimaryKeyFields();
+    return keyFields.find((field) => this.entityConfig.fields[field]?.autoIncrement) || keyFields[0];
+  }
+
+  /**
+   * Normaliza un ID (valor simple u objeto con un valor por campo) a un objeto con
+   * todos los campos de la clave primaria en el orden configurado
+   */
+  normalizeId(id: RecordId): Record<string, string | number> {
+    const keyFields = this.getPrimaryKeyFields();
+
+    if (id === null || typeof id !== "object") {
+      if (keyFields.length > 1) {
+        throw new Error(`La clave primaria es compuesta (${keyFields.join(", ")}): el ID debe ser un objeto`);
+      }
+      return { [keyFields[0]]: id };
     }
 
-    // Filtros específicos
-    Object.entries(filters).forEach(([key, value], index) => {
-      if (value !== null && value !== undefined) {
-        const paramName = `filter_${index}`;
-        params[paramName] = value;
-        conditions.push(`${key} = :${paramName}`);
+    const entries = Object.entries(id);
+    const normalized: Record<string, string | number> = {};
+    keyFields.forEach((field) => {
+      const entry = entries.find(([key]) => key === field) ||
+        entries.find(([key]) => key.toUpperCase() === field.toUpperCase());
+      if (!entry || entry[1] === undefined || entry[1] === null) {
+        throw new Error(`Falta el valor de la clave primaria '${field}'`);
       }
+      normalized[field] = entry[1];
     });
 
-    return { conditions, params };
+    return normalized;
+  }
+
+  /**
+   * Sentencia del upsert: un MERGE o, si se informa la acción, un bloque PL/SQL que deja en :upsert_matched
+   * si la fila se actualizó (1) o se insertó (0). Con borrado lógico, un registro borrado que coincide se
+   * restaura (si no, se actualizaría sin volver a ser visible); agrega a params los binds de la restauración.
+   * returning (solo en el bloque) es la cláusula RETURNING ... INTO de la clave generada.
+   */
+  private buildUpsertSql(
+    fields: string[],
+    matchOn: string[],
+    reportAction = false,
+    params: QueryParams = {},
+    returning = "",
+  ): string {
+    const writableFields = this.getWritableFields();
+
+    // Las columnas del ON no se pueden actualizar (ORA-38104)
+    const updateFields = fields.filter((field) =>
+      writableFields.includes(field) && !matchOn.includes(field) && !this.getPrimaryKeyFields().includes(field)
+    );
+    const insertFields = fields.filter((field) => writableFields.includes(field));
+    const restore = this.entityConfig.softDelete && !fields.includes(this.entityConfig.softDelete.field)
+      ? (tableAlias?: string) => [this.getSoftDeleteAssignment("active", params, tableAlias)]
+      : () => [];
+
+    return reportAction
+      ? this.buildUpsertBlock(matchOn, updateFields, insertFields, restore(), returning)
+      : this.buildMergeSql(fields, matchOn, updateFields, insertFields, restore("t"));
+  }
+
+  /**
+   * MERGE con los valores de la fila como origen
+   */
+  private buildMergeSql(
+    fields: string[],
+    matchOn: string[],
+    updateFields: string[],
+    insertFields: string[],
+    restoreAssignments: string[],
+  ): string {
+    const source = fields.map((field) => `:${field} AS ${this.quoteIdentifier(field)}`).join(", ");
+    const onClause = matchOn.map((field) => `t.${this.column(field)} = s.${this.quoteIdentifier(field)}`)
+      .join(" AND ");
+
+    let sql = `MERGE INTO ${this.table()} t USING (SELECT ${source} FROM dual) s ON (${onClause})`;
+    if (updateFields.length > 0 || restoreAssignments.length > 0) {
+      sql += ` WHEN MATCHED THEN UPDATE SET ${
+        [
+          ...updateFields.map((field) => `t.${this.column(field)} = s.${this.quoteIdentifier(field)}`),
+          ...restoreAssignments,
+          ...this.getVersionAssignments("t"),
+        ].join(", ")
+      }`;
+    }
+    const insertColumns = this.getInsertColumns(insertFields, (field) => `s.${this.quoteIdentifier(field)}`);
+    sql += ` WHEN NOT MATCHED THEN INSERT (${insertColumns.fieldNames}) VALUES (${insertColumns.placeholders})`;
+
+    return sql;
+  }
+
+  /**
+   * Bloque PL/SQL equivalente al MERGE en el que la acción informada es la de la sentencia que escribió la
+   * fila: UPDATE y, sin coincidencias, INSERT. Si otra sesión inserta el mismo registro entre ambos pasos
+   * (DUP_VAL_ON_INDEX), se repite el UPDATE. Con returning, ambas sentencias devuelven la clave de la fila.
+   */
+  private buildUpsertBlock(
+    matchOn: string[],
+    updateFields: string[],
+    insertFields: string[],
+    restoreAssignments: string[],
+    returning = "",
+  ): string {
+    const matchCondition = matchOn.map((field) => `${this.column(field)} = :${field}`).join(" AND ");
+    const insertColumns = this.getInsertColumns(insertFields);
+    const insert = `INSERT INTO ${this.table()} (${insertColumns.fieldNames}) VALUES (${insertColumns.placeholders})` +
+      returning;
+
+    // Sin campos que actualizar, una coincidencia deja el registro como está (INSERT ... SELECT no admite
+    // RETURNING, así que para devolver la clave se lee la fila existente)
+    if (updateFields.length === 0 && restoreAssignments.length === 0 && returning) {
+      return `BEGIN SELECT ${this.column(this.getGeneratedKeyField())} INTO :new_id FROM ${this.table()} ` +
+        `WHERE ${matchCondition}; :upsert_matched := 1; ` +
+        `EXCEPTION WHEN NO_DATA_FOUND THEN ${insert}; :upsert_matched := 0; END;`;
+    }
+    if (updateFields.length === 0 && restoreAssignments.length === 0) {
+      return `BEGIN INSERT INTO ${this.table()} (${insertColumns.fieldNames}) ` +
+        `SELECT ${insertColumns.placeholders} FROM dual ` +
+        `WHERE NOT EXISTS (SELECT 1 FROM ${this.table()} WHERE ${matchCondition}); ` +
+        `:upsert_matched := 1 - SQL%ROWCOUNT; END;`;
+    }
+
+    const setClause = [
+      ...updateFields.map((field) => `${this.column(field)} = :${field}`),
+      ...restoreAssignments,
+      ...this.getVersionAssignments(),
+    ].join(", ");
+    const update = `UPDATE ${this.table()} SET ${setClause} WHERE ${matchCondition}${returning}`;
+
+    return `BEGIN ${update}; ` +
+      `IF SQL%ROWCOUNT = 0 THEN ${insert}; :upsert_matched := 0; ELSE :upsert_matched := 1; END IF; ` +
+      `EXCEPTION WHEN DUP_VAL_ON_INDEX THEN ${update}; ` +
+      `IF SQL%ROWCOUNT = 0 THEN RAISE; END IF; :upsert_matched := 1; END;`;
+  }
+
+  /**
+   * Campos de coincidencia del upsert: los indicados, la clave primaria si todas las filas la incluyen o el
+   * único campo unique de la entidad. Con varios campos unique hay que indicar matchOn, ya que exigir que
+   * coincidan todos insertaría (ORA-00001) las filas que coinciden con un registro en solo uno de ellos.
+   * Cada fila debe tener un valor para todos los campos de coincidencia.
+   */
+  private resolveMatchOn(rows: Record<string, unknown>[], matchOn?: string[]): string[] {
+    let fields: string[];
+    if (matchOn && matchOn.length > 0) {
+      fields = matchOn.map((field) => this.resolveField(field, "matchOn"));
+    } else {
+      const keyFields = this.getPrimaryKeyFields();
+      const uniqueFields = Object.entries(this.entityConfig.fields)
+        .filter(([fieldName, fieldConfig]) => fieldConfig.unique && !keyFields.includes(fieldName))
+        .map(([fieldName, _]) => fieldName);
+      const hasKey = rows.every((row) => keyFields.every((field) => row[field] !== undefined && row[field] !== null));
+
+      if (hasKey || uniqueFields.length === 0) {
+        fields = keyFields;
+      } else if (uniqueFields.length === 1) {
+        fields = uniqueFields;
+      } else {
+        throw new Error(
+          `La entidad tiene varios campos unique (${uniqueFields.join(", ")}); indique matchOn para el upsert`,
+        );
+      }
+    }
+
+    fields.forEach((field) => {
+      if (rows.some((row) => row[field] === undefined || row[field] === null)) {
+        throw new Error(`El campo de coincidencia '${field}' es requerido para el upsert`);
+      }
+    });
+
+    return fields;
+  }
+
+  /**
+   * Campos enviados en el upsert: los escribibles presentes en alguna fila más los de coincidencia
+   */
+  private getUpsertFields(rows: Record<string, unknown>[], matchOn: string[]): string[] {
+    const fields = this.getWritableFields().filter((field) => rows.some((row) => row[field] !== undefined));
+    if (fields.length === 0) {
+      throw new Error("No hay campos válidos para insertar");
+    }
+
+    matchOn.forEach((field) => {
+      if (!fields.includes(field)) fields.push(field);
+    });
+    return fields;
+  }
+
+  /**
+   * Obtiene los campos que se pueden escribir (no readonly, no autoIncrement)
+   */
+  private getWritableFields(): string[] {
+    // El campo de versión lo mantiene la librería
+    return Object.entries(this.entityConfig.fields)
+      .filter(([fieldName, fieldConfig]) =>
+        !fieldConfig.readonly && !fieldConfig.autoIncrement && fieldName !== this.entityConfig.versionField
+      )
+      .map(([fieldName, _]) => fieldName);
+  }
+
+  /**
+   * Columnas y valores de un INSERT, incluida la versión inicial si la entidad usa versionField
+   */
+  private getInsertColumns(
+    fields: string[],
+    placeholder: (field: string) => string = (field) => `:${field}`,
+  ): { fieldNames: string; placeholders: string } {
+    const fieldNames = fields.map((field) => this.column(field));
+    const placeholders = fields.map(placeholder);
+
+    const versionKind = this.getVersionKind();
+    if (versionKind === "counter" || versionKind === "timestamp") {
+      fieldNames.push(this.column(this.entityConfig.versionField!));
+      placeholders.push(versionKind === "counter" ? "1" : "LOCALTIMESTAMP(3)");
+    }
+
+    return { fieldNames: fieldNames.join(", "), placeholders: placeholders.join(", ") };
+  }
+
+  /**
+   * Condición WHERE por clave primaria: ":id" o, con clave compuesta, ":id_0 AND :id_1..."
+   */
+  private getIdCondition(): string {
+    const bindNames = this.getIdBindNames();
+    return this.getPrimaryKeyFields()
+      .map((field, index) => `${this.column(field)} = :${bindNames[index]}`)
+      .join(" AND ");
+  }
+
+  /**
+   * Binds de la condición por clave primaria para un ID
+   */
+  private getIdParams(id: RecordId): QueryParams {
+    const normalized = this.normalizeId(id);
+    const bindNames = this.getIdBindNames();
+    const params: QueryParams = {};
+    this.getPrimaryKeyFields().forEach((field, index) => {
+      params[bindNames[index]] = normalized[field];
+    });
+    return params;
+  }
+
+  /**
+   * Definiciones de binds de la condición por clave primaria
+   */
+  private getIdBindDefinitions(): Record<string, BindDefinition> {
+    const bindNames = this.getIdBindNames();
+    const bindDefs: Record<string, BindDefinition> = {};
+    this.getPrimaryKeyFields().forEach((field, index) => {
+      bindDefs[bindNames[index]] = this.getBindDefinition(field);
+    });
+    return bindDefs;
+  }
+
+  /**
+   * Nombres de los binds de la clave primaria
+   */
+  private getIdBindNames(): string[] {
+    const keyFields = this.getPrimaryKeyFields();
+    return keyFields.length === 1 ? ["id"] : keyFields.map((_, index) => `id_${index}`);
+  }
+
+  /**
+   * Agrega los valores de una lista IN como binds :rel_N y devuelve los placeholders
+   */
+  private bindRelatedValues(values: FilterValue[], params: QueryParams): string {
+    if (values.length === 0) {
+      throw new Error("La lista de valores relacionados no puede estar vacía");
+    }
+    return values.map((value, index) => {
+      params[`rel_${index}`] = value;
+      return `:rel_${index}`;
+    }).join(", ");
+  }
+
+  /**
+   * Definiciones de binds (tipo Oracle y tamaño) de una lista de campos, requeridas por executeMany
+   */
+  private getBindDefinitions(fields: string[]): Record<string, BindDefinition> {
+    const bindDefs: Record<string, BindDefinition> = {};
+    fields.forEach((field) => {
+      bindDefs[field] = this.getBindDefinition(field);
+    });
+    return bindDefs;
+  }
+
+  /**
+   * Definición de bind de un campo según su tipo configurado
+   */
+  private getBindDefinition(field: string): BindDefinition {
+    const fieldConfig = this.entityConfig.fields[field];
+    switch (fieldConfig?.type.toLowerCase()) {
+      case "number":
+      case "integer":
+        return { type: "NUMBER" };
+      case "date":
+        return { type: "DATE" };
+      case "timestamp":
+        return { type: "TIMESTAMP" };
+      case "clob":
+        return { type: "CLOB" };
+      case "boolean":
+        return { type: "BOOLEAN" };
+      default:
+        return { type: "STRING", maxSize: fieldConfig?.length || 4000 };
+    }
+  }
+
+  /**
+   * Valida que los campos requeridos estén presentes
+   */
+  validateRequiredFields(data: Record<string, unknown>, isUpdate = false): void {
+    const requiredFields = Object.entries(this.entityConfig.fields)
+      .filter(([_, fieldConfig]) =>
+        fieldConfig.required &&
+        !fieldConfig.autoIncrement &&
+        (!isUpdate || data[_] !== undefined)
+      )
+      .map(([fieldName, _]) => fieldName);
+
+    const missingFields = requiredFields.filter((field) =>
+      data[field] === undefined || data[field] === null || data[field] === ""
+    );
+
+    if (missingFields.length > 0) {
+      throw new Error(`Campos requeridos faltantes: ${missingFields.join(", ")}`);
+    }
+  }
+
+  /**
+   * Aplica filtros predefinidos de la configuración
+   */
+  applyPredefinedFilter(filterName: string, baseOptions: SearchOptions = {}): SearchOptions {
+    const filterConfig = this.entityConfig.filters?.[filterName];
+    if (!filterConfig) {
+      throw new Error(`Filtro '${filterName}' no encontrado`);
+    }
+
+    const operator = this.resolveFilterOperator(filterConfig.operator);
+    const value = operator === "isNull" || operator === "isNotNull" ? true : filterConfig.value;
+    const predicate = { [operator]: value } as FilterOperators;
+
+    // Combinar con un predicado existente sobre el mismo campo (ej: rango gte + lte)
+    const filters = { ...baseOptions.filters };
+    const existing = filters[filterConfig.field];
+    filters[filterConfig.field] = this.isFilterOperators(existing) ? { ...existing, ...predicate } : predicate;
+
+    return {
+      ...baseOptions,
+      filters,
+    };
+  }
+
+  /**
+   * Construye condiciones WHERE dinámicas (compartidas por SELECT y COUNT)
+   */
+  private buildWhereConditions(options: SearchOptions = {}): { conditions: string[]; params: QueryParams } {
+    const { search, searchFields = [], filters = {}, where } = options;
+    const conditions: string[] = [];
+    const params: QueryParams = {};
+
+    // Condiciones de búsqueda
+    if (search && searchFields.length > 0) {
+      const searchCondition = this.buildSearchCondition(search, searchFields, params);
+      if (searchCondition) {
+        conditions.push(searchCondition);
+      }
+    }
+
+    // Filtros específicos y expresión anidada comparten el contador de binds
+    let filterIndex = 0;
+    const nextParamName = () => `filter_${filterIndex++}`;
+
+    Object.entries(filters).forEach(([key, condition]) => {
+      conditions.push(...this.buildFieldConditions(key, condition, params, nextParamName));
+    });
+
+    if (where) {
+      conditions.push(...this.compileFilterExpression(where, params, nextParamName));
+    }
+
+    conditions.push(...this.getSoftDeleteConditions(options, params));
+
+    return { conditions, params };
+  }
+
+  /**
+   * Condición de búsqueda de texto según textSearch.strategy, con el texto del usuario escapado:
+   * like compara con LIKE (sin comodines del usuario), contains usa CONTAINS con una etiqueta de SCORE por campo
+   * y fuzzy acepta coincidencias LIKE o con similitud Jaro-Winkler mayor o igual al umbral
+   */
+  private buildSearchCondition(search: string, searchFields: string[], params: QueryParams): string | null {
+    const columns = searchFields.map((field) => this.column(this.resolveField(field, "searchFields")));
+    const strategy = this.entityConfig.textSearch?.strategy || "like";
+
+    if (strategy === "contains") {
+      const textQuery = this.toOracleTextQuery(search);
+      if (!textQuery) return null;
+      params.search_text = textQuery;
+      return `(${columns.map((column, index) => `CONTAINS(${column}, :search_text, ${index + 1}) > 0`).join(" OR ")})`;
+    }
+
+    params.search_pattern = `%${this.escapeLikePattern(search)}%`;
+    const likeConditions = columns.map((column) => `UPPER(${column}) LIKE UPPER(:search_pattern) ESCAPE '\\'`);
+    if (strategy === "like") {
+      return `(${likeConditions.join(" OR ")})`;
+    }
+
+    params.search_text = search;
+    params.search_threshold = this.entityConfig.textSearch?.fuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD;
+    const fuzzyConditions = columns.map((column) =>
+      `UTL_MATCH.JARO_WINKLER_SIMILARITY(UPPER(${column}), UPPER(:search_text)) >= :search_threshold`
+    );
+    return `(${[...likeConditions, ...fuzzyConditions].join(" OR ")})`;
+  }
+
+  /**
+   * Expresión de relevancia para ordenar los resultados de una búsqueda contains (SCORE) o fuzzy (similitud);
+   * null con like o sin búsqueda
+   */
+  private getSearchRelevance(options: SearchOptions): string | null {
+    const strategy = this.entityConfig.textSearch?.strategy || "like";
+    const searchFields = options.searchFields || [];
+    if (strategy === "like" || !options.search || searchFields.length === 0) {
+      return null;
+    }
+    if (strategy === "contains") {
+      return this.toOracleTextQuery(options.search)
+        ? `GREATEST(${searchFields.map((_, index) => `SCORE(${index + 1})`).join(", ")})`
+        : null;
+    }
+
+    const similarities = searchFields.map((field) =>
+      `UTL_MATCH.JARO_WINKLER_SIMILARITY(UPPER(${this.column(this.resolveField(field, "searchFields"))}), ` +
+      `UPPER(:search_text))`
+    );
+    return `GREATEST(${similarities.join(", ")})`;
+  }
+
+  /**
+   * Escapa los comodines de LIKE (% y _) y el carácter de escape para buscar el texto literal
+   */
+  private escapeLikePattern(text: string): string {
+    return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+  }
+
+  /**
+   * Convierte el texto del usuario en una consulta Oracle Text que exige todas sus palabras; cada palabra va
+   * entre llaves para que los caracteres y palabras reservadas (AND, NEAR, %, -, ...) se traten como texto.
+   * Devuelve null si no hay palabras.
+   */
+  private toOracleTextQuery(text: string): string | null {
+    const words = text.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return null;
+    return words.map((word) => `{${word.replace(/}/g, "}}")}}`).join(" AND ");
+  }
+
+  /**
+   * Compila una expresión de filtro anidada en condiciones unidas por AND
+   */
+  private compileFilterExpression(
+    expression: FilterExpression,
+    params: QueryParams,
+    nextParamName: () => string,
+  ): string[] {
+    if (typeof expression !== "object" || expression === null || Array.isArray(expression)) {
+      throw new Error("La expresión de filtro debe ser un objeto");
+    }
+
+    const conditions: string[] = [];
+
+    Object.entries(expression).forEach(([key, value]) => {
+      if (value === undefined) {
+        return;
+      }
+
+      switch (key) {
+        case "and":
+        case "or": {
+          if (!Array.isArray(value)) {
+            throw new Error(`El operador lógico '${key}' requiere una lista de expresiones`);
+          }
+          if (key === "and") {
+            (value as FilterExpression[]).forEach((child) =>
+              conditions.push(...this.compileFilterExpression(child, params, nextParamName))
+            );
+            break;
+          }
+
+          // Una alternativa sin condiciones siempre se cumple, así que anula el OR completo; sus parámetros se
+          // compilan aparte para no dejar binds sin usar en la sentencia
+          const childParams: QueryParams = {};
+          const children = (value as FilterExpression[])
+            .map((child) => this.compileFilterExpression(child, childParams, nextParamName));
+          if (children.length === 0 || children.some((childConditions) => childConditions.length === 0)) {
+            break;
+          }
+
+          Object.assign(params, childParams);
+          if (children.length === 1) {
+            conditions.push(...children[0]);
+          } else {
+            const alternatives = children.map((childConditions) =>
+              childConditions.length > 1 ? `(${childConditions.join(" AND ")})` : childConditions[0]
+            );
+            conditions.push(`(${alternatives.join(" OR ")})`);
+          }
+          break;
+        }
+
+        case "not": {
+          const childConditions = this.compileFilterExpression(value as FilterExpression, params, nextParamName);
+          if (childConditions.length > 0) {
+            conditions.push(`NOT (${childConditions.join(" AND ")})`);
+          }
+          break;
+        }
+
+        default:
+          conditions.push(...this.buildFieldConditions(key, value as FilterCondition, params, nextParamName));
+      }
+    });
+
+    return conditions;
+  }
+
+  /**
+   * Compila la condición de un campo (valor simple, lista o predicado con operadores)
+   */
+  private buildFieldConditions(
+    field: string,
+    condition: FilterCondition | undefined,
+    params: QueryParams,
+    nextParamName: () => string,
+  ): string[] {
+    if (condition === null || condition === undefined) {
+      return [];
+    }
+
+    return this.buildPredicates(this.column(this.resolveField(field, "filters")), condition, params, nextParamName);
+  }
+
+  /**
+   * Predicados de una condición de filtro sobre una columna o expresión SQL ya validada
+   */
+  private buildPredicates(
+    column: string,
+    condition: FilterCondition | undefined,
+    params: QueryParams,
+    nextParamName: () => string,
+  ): string[] {
+    if (condition === null || condition === undefined) {
+      return [];
+    }
+
+    const predicates: Array<[string, unknown]> = this.isFilterOperators(condition)
+      ? Object.entries(condition)
+      : [[Array.isArray(condition) ? "in" : "eq", condition]];
+
+    return predicates
+      .filter(([_, value]) => value !== undefined)
+      .map(([operator, value]) => this.buildFilterPredicate(column, operator, value, params, nextParamName));
+  }
+
+  /**
+   * Expresión SQL de una métrica de agregación; SUM y AVG solo admiten campos numéricos
+   */
+  private buildAggregateExpression(metric: AggregateMetric): string {
+    if (!Object.prototype.hasOwnProperty.call(AGGREGATE_FUNCTIONS, metric.fn)) {
+      throw new Error(`Función de agregación no soportada: '${metric.fn}'`);
+    }
+    const sqlFunction = AGGREGATE_FUNCTIONS[metric.fn];
+
+    if (metric.field === undefined) {
+      if (metric.fn !== "count") {
+        throw new Error(`La función de agregación '${metric.fn}' requiere un campo`);
+      }
+      return `${sqlFunction}(*)`;
+    }
+
+    const field = this.resolveField(metric.field, "metrics");
+    if (metric.fn === "sum" || metric.fn === "avg") {
+      const type = this.entityConfig.fields[field].type.toLowerCase();
+      if (type !== "number" && type !== "integer") {
+        throw new Error(`La función de agregación '${metric.fn}' requiere un campo numérico: '${field}'`);
+      }
+    }
+
+    const distinct = metric.fn === "countDistinct" ? "DISTINCT " : "";
+    return `${sqlFunction}(${distinct}${this.column(field)})`;
+  }
+
+  /**
+   * Campo de ordenamiento de una agregación: debe ser uno de los campos agrupados
+   */
+  private resolveGroupField(name: string, groupFields: string[]): string {
+    const field = this.resolveField(name, "orderBy");
+    if (!groupFields.includes(field)) {
+      throw new InvalidIdentifierError(name, "orderBy");
+    }
+    return field;
+  }
+
+  /**
+   * Compila un predicado de filtro a SQL con parámetros bind
+   */
+  private buildFilterPredicate(
+    column: string,
+    operator: string,
+    value: unknown,
+    params: QueryParams,
+    nextParamName: () => string,
+  ): string {
+    if (!Object.prototype.hasOwnProperty.call(FILTER_OPERATORS, operator)) {
+      throw new Error(`Operador de filtro no soportado: '${operator}'`);
+    }
+    const sqlOperator = FILTER_OPERATORS[operator as FilterOperator];
+
+    switch (sqlOperator) {
+      case SQL_OPERATORS.IS_NULL:
+      case SQL_OPERATORS.IS_NOT_NULL: {
+        // isNull: false equivale a IS NOT NULL (y viceversa)
+        const wantsNull = (sqlOperator === SQL_OPERATORS.IS_NULL) === (value !== false);
+        return `${column} ${wantsNull ? SQL_OPERATORS.IS_NULL : SQL_OPERATORS.IS_NOT_NULL}`;
+      }
+
+      case SQL_OPERATORS.IN:
+      case SQL_OPERATORS.NOT_IN: {
+        const values = (Array.isArray(value) ? value : [value]) as FilterValue[];
+        if (values.length === 0) {
+          throw new Error(`El operador '${operator}' del filtro '${column}' requiere al menos un valor`);
+        }
+        const placeholders = values.map((item) => {
+          const paramName = nextParamName();
+          params[paramName] = item;
+          return `:${paramName}`;
+        });
+        return `${column} ${sqlOperator} (${placeholders.join(", ")})`;
+      }
+
+      default: {
+        if (Array.isArray(value)) {
+          throw new Error(`El operador '${operator}' del filtro '${column}' no admite una lista de valores`);
+        }
+
+        // Comparar contra null equivale a IS NULL / IS NOT NULL
+        if (value === null) {
+          if (sqlOperator === SQL_OPERATORS.EQUALS) return `${column} ${SQL_OPERATORS.IS_NULL}`;
+          if (sqlOperator === SQL_OPERATORS.NOT_EQUALS) return `${column} ${SQL_OPERATORS.IS_NOT_NULL}`;
+          throw new Error(`El operador '${operator}' del filtro '${column}' no admite null`);
+        }
+
+        const paramName = nextParamName();
+        params[paramName] = value as FilterValue;
+        return `${column} ${sqlOperator} :${paramName}`;
+      }
+    }
+  }
+
+  /**
+   * Indica si una condición de filtro es un predicado con operadores
+   */
+  private isFilterOperators(condition: FilterCondition | undefined): condition is FilterOperators {
+    return typeof condition === "object" && condition !== null && !Array.isArray(condition);
+  }
+
+  /**
+   * Campos a seleccionar según fields (lista de campos, lista separada por comas o nombre de una proyección),
+   * en el orden de la configuración. Siempre incluye la clave primaria, el campo de versión, las claves de las
+   * relaciones pedidas en include y los campos adicionales indicados. Sin fields devuelve undefined (todos).
+   */
+  resolveProjection(
+    fields?: string | string[],
+    include: string[] = [],
+    requiredFields: string[] = [],
+  ): string[] | undefined {
+    if (fields === undefined) {
+      return undefined;
+    }
+
+    const requested = typeof fields === "string"
+      ? this.entityConfig.projections?.[fields] ?? fields.split(",").map((field) => field.trim()).filter(Boolean)
+      : fields;
+    const selected = new Set([
+      ...requested.map((field) => this.resolveField(field, "fields")),
+      ...this.getPrimaryKeyFields(),
+      ...requiredFields,
+    ]);
+
+    const versionField = this.entityConfig.versionField;
+    if (versionField && this.entityConfig.fields[versionField]) {
+      selected.add(versionField);
+    }
+
+    // Claves con las que RelationLoader asocia los registros relacionados
+    include.forEach((path) => {
+      const relation = this.entityConfig.relations?.[path.split(".")[0]];
+      if (relation?.type === "belongsTo") selected.add(relation.foreignKey);
+      else if (relation?.localKey) selected.add(relation.localKey);
+    });
+
+    return Object.keys(this.entityConfig.fields).filter((field) => selected.has(field));
+  }
+
+  /**
+   * Obtiene el nombre del campo configurado que corresponde al identificador recibido.
+   * Acepta diferencias de mayúsculas/minúsculas y rechaza cualquier campo no declarado.
+   */
+  private resolveField(name: unknown, context: string): string {
+    if (typeof name !== "string" || name.length === 0) {
+      throw new InvalidIdentifierError(String(name), context);
+    }
+
+    const fields = this.entityConfig.fields;
+    if (Object.prototype.hasOwnProperty.call(fields, name)) {
+      return name;
+    }
+
+    const upperName = name.toUpperCase();
+    const match = Object.keys(fields).find((field) => field.toUpperCase() === upperName);
+    if (!match) {
+      throw new InvalidIdentifierError(name, context);
+    }
+    return match;
+  }
+
+  /**
+   * Campos del orden keyset: el campo de orderBy seguido de la clave primaria (que desempata)
+   */
+  private getKeysetFields(orderBy?: string): string[] {
+    const keyFields = this.getPrimaryKeyFields();
+    if (orderBy === undefined) {
+      return keyFields;
+    }
+    const field = this.resolveField(orderBy, "orderBy");
+    return [field, ...keyFields.filter((keyField) => keyField !== field)];
+  }
+
+  /**
+   * Equivalente a (c1, c2, ...) > (:v1, :v2, ...), que Oracle no admite:
+   * (c1 > :v1) OR (c1 = :v1 AND c2 > :v2) OR ...
+   * En campos que admiten NULL (no requeridos ni de la clave primaria) se sigue el orden de Oracle (NULLS LAST
+   * en ASC, NULLS FIRST en DESC): un valor NULL del cursor se compara con IS NULL y los NULL quedan después de
+   * cualquier valor en ASC y antes en DESC.
+   */
+  private buildKeysetCondition(
+    fields: string[],
+    values: Array<string | number | boolean | Date | null>,
+    direction: "ASC" | "DESC",
+    params: QueryParams,
+  ): string {
+    const operator = direction === "ASC" ? ">" : "<";
+    const equals = (index: number) =>
+      values[index] === null
+        ? `${this.column(fields[index])} IS NULL`
+        : `${this.column(fields[index])} = :cursor_${index}`;
+    const follows = (index: number): string | null => {
+      const column = this.column(fields[index]);
+      if (values[index] === null) {
+        return direction === "ASC" ? null : `${column} IS NOT NULL`;
+      }
+      return direction === "ASC" && this.isNullableField(fields[index])
+        ? `${column} ${operator} :cursor_${index} OR ${column} IS NULL`
+        : `${column} ${operator} :cursor_${index}`;
+    };
+
+    fields.forEach((_, index) => {
+      if (values[index] !== null) params[`cursor_${index}`] = values[index];
+    });
+
+    const branches = fields.flatMap((_, index) => {
+      const condition = follows(index);
+      if (condition === null) {
+        return [];
+      }
+      const equalities = fields.slice(0, index).map((_, previousIndex) => equals(previousIndex));
+      const comparison = equalities.length > 0 && condition.includes(" OR ") ? `(${condition})` : condition;
+      return [`(${[...equalities, comparison].join(" AND ")})`];
+    });
+    return branches.length > 0 ? `(${branches.join(" OR ")})` : "1 = 0";
+  }
+
+  /**
+   * Indica si un campo puede tener valor NULL (no es requerido ni parte de la clave primaria)
+   */
+  private isNullableField(field: string): boolean {
+    return !this.entityConfig.fields[field]?.required && !this.getPrimaryKeyFields().includes(field);
+  }
+
+  /**
+   * Decodifica y valida un cursor; las fechas se restauran según el tipo del campo
+   */
+  private decodeCursor(cursor: string, fields: string[]): Array<string | number | boolean | Date | null> {
+    let values: unknown;
+    try {
+      const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+      values = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0))));
+    } catch {
+      values = null;
+    }
+
+    const isValid = Array.isArray(values) && values.length === fields.length &&
+      values.every((value) => value === null || ["string", "number", "boolean"].includes(typeof value));
+    if (!isValid) {
+      throw new InvalidIdentifierError(cursor, "cursor", "Cursor de paginación no válido");
+    }
+
+    return (values as Array<string | number | boolean | null>).map((value, index) => {
+      const type = this.entityConfig.fields[fields[index]]?.type.toLowerCase();
+      return typeof value === "string" && (type === "date" || type === "timestamp") ? new Date(value) : value;
+    });
+  }
+
+  /**
+   * Normaliza la dirección de ordenamiento recibida en tiempo de ejecución
+   */
+  private normalizeOrderDirection(direction: unknown): "ASC" | "DESC" {
+    const normalized = typeof direction === "string" ? direction.trim().toUpperCase() : "";
+    if (normalized !== "ASC" && normalized !== "DESC") {
+      throw new InvalidIdentifierError(String(direction), "orderDirection");
+    }
+    return normalized;
+  }
+
+  /**
+   * Tipo de versión: contador numérico, marca de tiempo (precisión de milisegundos) o la pseudocolumna ORA_ROWSCN
+   */
+  private getVersionKind(): "counter" | "timestamp" | "rowscn" | null {
+    const versionField = this.entityConfig.versionField;
+    if (!versionField) return null;
+    if (versionField.toUpperCase() === ORA_ROWSCN) return "rowscn";
+
+    const type = this.entityConfig.fields[versionField]?.type.toLowerCase();
+    return type === "timestamp" || type === "date" ? "timestamp" : "counter";
+  }
+
+  /**
+   * Asignaciones SET que avanzan la versión (ORA_ROWSCN la mantiene Oracle)
+   */
+  private getVersionAssignments(tableAlias?: string): string[] {
+    const versionKind = this.getVersionKind();
+    if (versionKind !== "counter" && versionKind !== "timestamp") {
+      return [];
+    }
+    const column = `${tableAlias ? `${tableAlias}.` : ""}${this.column(this.entityConfig.versionField!)}`;
+    return [versionKind === "counter" ? `${column} = ${column} + 1` : `${column} = LOCALTIMESTAMP(3)`];
+  }
+
+  /**
+   * Condición " AND versión = :expected_version" (vacía si no se indica la versión esperada)
+   */
+  private getVersionCondition(expectedVersion: string | number | undefined, params: QueryParams): string {
+    const versionKind = this.getVersionKind();
+    if (expectedVersion === undefined || !versionKind) {
+      return "";
+    }
+
+    const value = Number(expectedVersion);
+    if (!Number.isFinite(value)) {
+      throw new ConcurrencyConflictError(this.entityConfig.tableName, String(expectedVersion));
+    }
+    params.expected_version = versionKind === "timestamp" ? new Date(value) : value;
+
+    const column = versionKind === "rowscn" ? ORA_ROWSCN : this.column(this.entityConfig.versionField!);
+    return ` AND ${column} = :expected_version`;
+  }
+
+  /**
+   * Configuración de borrado lógico de la entidad (error si no está configurado)
+   */
+  private getSoftDeleteConfig(): SoftDeleteConfig {
+    const softDelete = this.entityConfig.softDelete;
+    if (!softDelete) {
+      throw new Error(`La entidad '${this.entityConfig.tableName}' no tiene borrado lógico configurado`);
+    }
+    return softDelete;
+  }
+
+  /**
+   * Condiciones de borrado lógico según las opciones: por defecto solo activos (ninguna si no está configurado)
+   */
+  private getSoftDeleteConditions(
+    options: Pick<SearchOptions, "withDeleted" | "onlyDeleted">,
+    params: QueryParams,
+    tableAlias?: string,
+  ): string[] {
+    if (!this.entityConfig.softDelete || (options.withDeleted && !options.onlyDeleted)) {
+      return [];
+    }
+    return [this.getSoftDeleteCondition(options.onlyDeleted ? "deleted" : "active", params, tableAlias)];
+  }
+
+  /**
+   * Condición que identifica los registros activos o borrados; agrega sus binds (:sd_active, :sd_deleted)
+   */
+  private getSoftDeleteCondition(state: "active" | "deleted", params: QueryParams, tableAlias?: string): string {
+    const { field, deletedValue, activeValue = null } = this.getSoftDeleteConfig();
+    const column = `${tableAlias ? `${tableAlias}.` : ""}${this.column(field)}`;
+
+    if (state === "active") {
+      if (activeValue === null) return `${column} IS NULL`;
+      params.sd_active = activeValue;
+      return `${column} = :sd_active`;
+    }
+    if (deletedValue === undefined) return `${column} IS NOT NULL`;
+    params.sd_deleted = deletedValue;
+    return `${column} = :sd_deleted`;
+  }
+
+  /**
+   * Definiciones de los binds de borrado lógico (:sd_active, :sd_deleted) para executeMany
+   */
+  private getSoftDeleteBindDefinitions(softDeleteParams: QueryParams): Record<string, BindDefinition> {
+    const bindDefs: Record<string, BindDefinition> = {};
+    Object.keys(softDeleteParams).forEach((name) => {
+      bindDefs[name] = this.getBindDefinition(this.getSoftDeleteConfig().field);
+    });
+    return bindDefs;
+  }
+
+  /**
+   * Asignación SET que marca un registro como activo o borrado; agrega sus binds
+   */
+  private getSoftDeleteAssignment(state: "active" | "deleted", params: QueryParams, tableAlias?: string): string {
+    const { field, deletedValue, activeValue = null } = this.getSoftDeleteConfig();
+    const column = `${tableAlias ? `${tableAlias}.` : ""}${this.column(field)}`;
+
+    if (state === "deleted") {
+      if (deletedValue === undefined) return `${column} = SYSTIMESTAMP`;
+      params.sd_deleted = deletedValue;
+      return `${column} = :sd_deleted`;
+    }
+    if (activeValue === null) return `${column} = NULL`;
+    params.sd_active = activeValue;
+    return `${column} = :sd_active`;
+  }
+
+  /**
+   * Lista de columnas del SELECT (todos los campos o los de la proyección), con el nombre lógico como alias
+   */
+  private getSelectColumns(tableAlias?: string, fields = Object.keys(this.entityConfig.fields)): string {
+    const prefix = tableAlias ? `${tableAlias}.` : "";
+    const columns = fields
+      .map((field) => `${prefix}${this.column(field)} AS ${this.quoteIdentifier(field)}`);
+    if (this.getVersionKind() === "rowscn") {
+      columns.push(`${prefix}${ORA_ROWSCN} AS ${this.quoteIdentifier(this.entityConfig.versionField!)}`);
+    }
+    return columns.join(", ");
+  }
+
+  /**
+   * Alias del SELECT, para consultas que envuelven a la consulta base
+   */
+  private getSelectAliases(projection?: string[]): string {
+    const fields = [...(projection || Object.keys(this.entityConfig.fields))];
+    if (this.getVersionKind() === "rowscn") {
+      fields.push(this.entityConfig.versionField!);
+    }
+    return fields.map((field) => this.quoteIdentifier(field)).join(", ");
+  }
+
+  /**
+   * Columna de la base de datos de un campo (FieldConfig.column o el propio nombre),
+   * entrecomillada si la entidad lo requiere
+   */
+  private column(field: string): string {
+    const columnName = this.entityConfig.fields[field]?.column || field;
+    return this.entityConfig.quoteIdentifiers ? this.quoteIdentifier(columnName) : columnName;
+  }
+
+  /**
+   * Nombre de la tabla (con esquema opcional), entrecomillado si la entidad lo requiere
+   */
+  private table(): string {
+    const tableName = this.entityConfig.tableName;
+    if (!this.entityConfig.quoteIdentifiers) {
+      return tableName;
+    }
+    return tableName.split(".").map((part) => this.quoteIdentifier(part)).join(".");
+  }
+
+  /**
+   * Entrecomilla un identificador Oracle respetando mayúsculas/minúsculas
+   */
+  private quoteIdentifier(identifier: string): string {
+    if (identifier.includes('"')) {
+      throw new InvalidIdentifierError(identifier, "identificador");
+    }
+    return `"${identifier}"`;
+  }
+
+  /**
+   * Obtiene la clave de FilterOperators a partir de un operador SQL ("IS NULL") o de la propia clave ("isNull")
+   */
+  private resolveFilterOperator(operator: string): FilterOperator {
+    if (Object.prototype.hasOwnProperty.call(FILTER_OPERATORS, operator)) {
+      return operator as FilterOperator;
+    }
+
+    const normalized = operator.trim().replace(/\s+/g, " ").toUpperCase();
+    const match = Object.entries(FILTER_OPERATORS).find(([_, sqlOperator]) => sqlOperator === normalized);
+    if (!match) {
+      throw new Error(`Operador de filtro no soportado: '${operator}'`);
+    }
+    return match[0] as FilterOperator;
   }
 }
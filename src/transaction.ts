@@ -0,0 +1,175 @@
+/**
+ * Transaction - Unidad de trabajo sobre una única conexión Oracle
+ */
+
+import type { OracleConnectionInstance } from "./connection.ts";
+import type { ExecuteManyResult, QueryResult } from "./types.ts";
+
+// Nombres válidos para savepoints (identificadores Oracle sin comillas)
+const SAVEPOINT_NAME_REGEX = /^[A-Za-z][A-Za-z0-9_$#]{0,127}$/;
+
+/**
+ * Transacción explícita que fija una conexión del pool con autoCommit deshabilitado
+ */
+export class Transaction {
+  private connection: OracleConnectionInstance;
+  private outFormat: number;
+  private active = true;
+  private completionCallbacks: Array<(committed: boolean) => void> = [];
+  private savepointCount = 0;
+
+  constructor(connection: OracleConnectionInstance, outFormat: number) {
+    this.connection = connection;
+    this.outFormat = outFormat;
+  }
+
+  /**
+   * Indica si la transacción sigue abierta
+   */
+  get isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Ejecuta una sentencia dentro de la transacción (sin autoCommit)
+   */
+  async execute(
+    statement: string,
+    binds: Record<string, unknown> = {},
+    opts: Record<string, unknown> = {},
+  ): Promise<QueryResult> {
+    this.ensureActive();
+
+    const options = {
+      outFormat: this.outFormat,
+      ...opts,
+      autoCommit: false,
+    };
+
+    return await this.connection.execute(statement, binds, options) as QueryResult;
+  }
+
+  /**
+   * Ejecuta una sentencia DML una vez por cada conjunto de binds dentro de la transacción (sin autoCommit)
+   */
+  async executeMany(
+    statement: string,
+    binds: Record<string, unknown>[],
+    opts: Record<string, unknown> = {},
+  ): Promise<ExecuteManyResult> {
+    this.ensureActive();
+    return await this.connection.executeMany(statement, binds, { ...opts, autoCommit: false }) as ExecuteManyResult;
+  }
+
+  /**
+   * Confirma la transacción y libera la conexión. Si el commit falla se revierte la transacción, se notifica
+   * a los suscriptores como no confirmada y se relanza el error.
+   */
+  async commit(): Promise<void> {
+    this.ensureActive();
+    try {
+      await this.connection.commit();
+    } catch (error) {
+      try {
+        await this.connection.rollback();
+      } catch (rollbackError) {
+        console.error("Error revirtiendo tras fallo en commit:", rollbackError);
+      }
+      await this.finish(false);
+      throw error;
+    }
+    await this.finish(true);
+  }
+
+  /**
+   * Revierte la transacción y libera la conexión
+   */
+  async rollback(): Promise<void> {
+    this.ensureActive();
+    try {
+      await this.connection.rollback();
+    } finally {
+      await this.finish(false);
+    }
+  }
+
+  /**
+   * Crea un savepoint dentro de la transacción
+   */
+  async savepoint(name: string): Promise<void> {
+    this.ensureActive();
+    await this.connection.execute(`SAVEPOINT ${this.validateSavepointName(name)}`, {}, { autoCommit: false });
+  }
+
+  /**
+   * Crea un savepoint con un nombre único en la transacción (prefijo y contador) y devuelve el nombre; Oracle
+   * reemplaza un savepoint al reutilizar su nombre, así que las operaciones anidadas necesitan nombres distintos
+   */
+  async createSavepoint(prefix: string): Promise<string> {
+    const name = `${prefix}_${++this.savepointCount}`;
+    await this.savepoint(name);
+    return name;
+  }
+
+  /**
+   * Revierte los cambios hasta un savepoint sin cerrar la transacción
+   */
+  async rollbackTo(name: string): Promise<void> {
+    this.ensureActive();
+    await this.connection.execute(
+      `ROLLBACK TO SAVEPOINT ${this.validateSavepointName(name)}`,
+      {},
+      { autoCommit: false },
+    );
+  }
+
+  /**
+   * Registra una función a ejecutar cuando la transacción finalice (commit o rollback)
+   */
+  onComplete(callback: (committed: boolean) => void): void {
+    this.ensureActive();
+    this.completionCallbacks.push(callback);
+  }
+
+  /**
+   * Marca la transacción como finalizada, libera la conexión y notifica a los suscriptores
+   */
+  private async finish(committed: boolean): Promise<void> {
+    this.active = false;
+
+    try {
+      await this.connection.close();
+    } catch (error) {
+      console.error("Error cerrando conexión de la transacción:", error);
+    }
+
+    const callbacks = this.completionCallbacks;
+    this.completionCallbacks = [];
+    callbacks.forEach((callback) => {
+      try {
+        callback(committed);
+      } catch (error) {
+        console.error("Error en callback de finalización de transacción:", error);
+      }
+    });
+  }
+
+  /**
+   * Verifica que la transacción no haya sido finalizada
+   */
+  private ensureActive(): void {
+    if (!this.active) {
+      throw new Error("La transacción ya fue finalizada");
+    }
+  }
+
+  /**
+   * Valida el nombre de un savepoint para evitar inyección SQL
+   */
+  private validateSavepointName(name: string): string {
+    if (!SAVEPOINT_NAME_REGEX.test(name)) {
+      throw new Error(`Nombre de savepoint inválido: '${name}'`);
+    }
+    return name;
+  }
+}
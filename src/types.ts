@@ -11,24 +11,155 @@ export interface CacheConfig {
 
 // Parámetros de consulta SQL
 export interface QueryParams {
-  [key: string]: string | number | boolean | null;
+  [key: string]: string | number | boolean | Date | null;
 }
 
+// Identificador de registro: valor simple u objeto con un valor por campo de una clave primaria compuesta
+export type RecordId = string | number | Record<string, string | number>;
+
 // Consulta SQL construida
 export interface SqlQuery {
   sql: string;
   params: QueryParams;
 }
 
+// Tipo de una variable bind; OracleConnection lo traduce a la constante DB_TYPE_* del driver
+export type BindType = "NUMBER" | "STRING" | "DATE" | "TIMESTAMP" | "CLOB" | "BLOB" | "BOOLEAN" | "CURSOR";
+
+// Definición de una variable bind (bindDefs de executeMany o bind de salida en execute)
+export interface BindDefinition {
+  type: BindType;
+  dir?: "IN" | "OUT";
+  maxSize?: number;
+}
+
+// Sentencia DML masiva: una sentencia con un conjunto de binds por fila
+export interface SqlBatch {
+  sql: string;
+  binds: QueryParams[];
+  bindDefs: Record<string, BindDefinition>;
+}
+
+// Valor escalar admitido en filtros
+export type FilterValue = string | number | boolean;
+
+// Predicado de filtro por operador (ver FILTER_OPERATORS en config.ts)
+export interface FilterOperators {
+  eq?: FilterValue | null;
+  ne?: FilterValue | null;
+  gt?: FilterValue;
+  gte?: FilterValue;
+  lt?: FilterValue;
+  lte?: FilterValue;
+  like?: string;
+  notLike?: string;
+  in?: FilterValue[];
+  notIn?: FilterValue[];
+  isNull?: boolean;
+  isNotNull?: boolean;
+}
+
+export type FilterOperator = keyof FilterOperators;
+
+// Condición de filtro: valor simple (igualdad), lista (IN) o predicado con operadores
+export type FilterCondition = FilterValue | FilterValue[] | FilterOperators | null;
+
+// Expresión de filtro anidada: grupos and/or/not combinados con condiciones por campo (unidas con AND)
+export interface FilterExpression {
+  and?: FilterExpression[];
+  or?: FilterExpression[];
+  not?: FilterExpression;
+  [field: string]: FilterCondition | FilterExpression | FilterExpression[] | undefined;
+}
+
 // Opciones de búsqueda
 export interface SearchOptions {
   search?: string;
   searchFields?: string[];
-  filters?: Record<string, string | number | boolean>;
+  filters?: Record<string, FilterCondition>;
+  where?: FilterExpression;
   page?: number;
   pageSize?: number;
   orderBy?: string;
   orderDirection?: "ASC" | "DESC";
+  include?: string[]; // Relaciones a cargar; admite anidamiento con puntos ("customer.region")
+  fields?: string | string[]; // Campos a seleccionar o nombre de una proyección de EntityConfig.projections
+  withDeleted?: boolean; // Incluir registros con borrado lógico
+  onlyDeleted?: boolean; // Solo registros con borrado lógico
+}
+
+// Paginación por cursor (keyset): after/before son cursores opacos devueltos por una página anterior
+// (after: null pide la primera página); el COUNT solo se ejecuta con includeTotal
+export interface CursorSearchOptions extends SearchOptions {
+  after?: string | null;
+  before?: string;
+  includeTotal?: boolean;
+}
+
+// Opciones de iterate(): filtros, búsqueda, orden y proyección de findAll, sin paginación ni relaciones
+export interface IterateOptions extends Omit<SearchOptions, "page" | "pageSize" | "include"> {
+  fetchArraySize?: number; // Filas leídas por viaje a la base de datos
+}
+
+// Formatos de export()
+export type ExportFormat = "csv" | "ndjson" | "xlsx";
+
+// Opciones de export(): las de iterate() más el delimitador y BOM de CSV, el nombre de la hoja de XLSX
+// y los formatos de fecha (por defecto, los de AppConfig.settings)
+export interface ExportOptions extends IterateOptions {
+  delimiter?: string; // Por defecto ","
+  bom?: boolean; // Agregar BOM UTF-8 al CSV (Excel lo necesita para detectar la codificación)
+  sheetName?: string; // Por defecto, displayName de la entidad
+  dateFormat?: string;
+  timestampFormat?: string;
+}
+
+// Funciones de agregación: countDistinct equivale a COUNT(DISTINCT campo)
+export type AggregateFunction = "count" | "sum" | "avg" | "min" | "max" | "countDistinct";
+
+// Métrica de aggregate(); count sin field cuenta filas (COUNT(*))
+export interface AggregateMetric {
+  fn: AggregateFunction;
+  field?: string;
+}
+
+// Opciones de aggregate(): métricas por alias, campos de agrupación, HAVING sobre los alias de las métricas
+// y orden por un alias o un campo agrupado; admite los mismos filtros y búsqueda que findAll
+export interface AggregateOptions
+  extends Pick<SearchOptions, "search" | "searchFields" | "filters" | "where" | "withDeleted" | "onlyDeleted"> {
+  metrics: Record<string, AggregateMetric>;
+  groupBy?: string[];
+  having?: Record<string, FilterCondition>;
+  orderBy?: string;
+  orderDirection?: "ASC" | "DESC";
+  limit?: number; // Máximo de filas devueltas, en el orden indicado
+}
+
+// Opciones de facets(): filtros y búsqueda de findAll y el máximo de valores distintos por campo
+// (por defecto y como tope, maxPageSize)
+export interface FacetOptions
+  extends Pick<SearchOptions, "search" | "searchFields" | "filters" | "where" | "withDeleted" | "onlyDeleted"> {
+  limit?: number;
+}
+
+// Valor distinto de un campo con su número de registros (label desde FieldConfig.values, si está definido)
+export interface FacetValue {
+  value: unknown;
+  label?: string;
+  count: number;
+}
+
+// Respuesta paginada por cursor
+export interface CursorPaginatedResponse<T = Record<string, unknown>> {
+  data: T[];
+  pagination: {
+    pageSize: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+    hasNext: boolean;
+    hasPrev: boolean;
+    total?: number;
+  };
 }
 
 // Respuesta paginada
@@ -62,11 +193,20 @@ export interface FieldConfig {
   values?: Array<{ value: string | number | boolean; label: string }>;
 }
 
+// Búsqueda de texto (search): like (por defecto), contains (índices Oracle Text, ordena por relevancia)
+// o fuzzy (similitud Jaro-Winkler de UTL_MATCH además de LIKE, ordena por similitud)
+export type TextSearchStrategy = "like" | "contains" | "fuzzy";
+
+export interface TextSearchConfig {
+  strategy: TextSearchStrategy;
+  fuzzyThreshold?: number; // Similitud mínima (0-100) de fuzzy; por defecto 85
+}
+
 // Configuración de filtro
 export interface FilterConfig {
   field: string;
-  operator: string;
-  value: string | number | boolean;
+  operator: string; // Operador SQL ("=", ">=", "IN", "IS NULL"...) o clave de FilterOperators ("gte", "in"...)
+  value: FilterValue | FilterValue[];
   displayName: string;
 }
 
@@ -89,11 +229,37 @@ export interface CustomActionConfig {
   description: string;
 }
 
+// Relación con otra entidad configurada (entity = clave en AppConfig.entities)
+export interface RelationConfig {
+  type: "belongsTo" | "hasMany" | "manyToMany";
+  entity: string;
+  foreignKey: string; // belongsTo: campo de esta entidad; hasMany: campo de la relacionada; manyToMany: campo de la intermedia hacia esta entidad
+  localKey?: string; // hasMany/manyToMany: campo de esta entidad referenciado (por defecto, la clave primaria)
+  targetKey?: string; // belongsTo/manyToMany: campo referenciado de la entidad relacionada (por defecto, su clave primaria)
+  through?: string; // manyToMany: entidad intermedia
+  otherKey?: string; // manyToMany: campo de la intermedia hacia la entidad relacionada
+}
+
+// Borrado lógico: sin deletedValue se marca con SYSTIMESTAMP y los registros activos tienen el campo a NULL
+export interface SoftDeleteConfig {
+  field: string; // Campo que marca el borrado (ej: DELETED_AT o ACTIVE)
+  deletedValue?: string | number | boolean; // Valor de los registros borrados (ej: 0 o 'N')
+  activeValue?: string | number | boolean | null; // Valor de los registros activos (por defecto NULL)
+}
+
+// Auditoría de cambios de una entidad
+export interface AuditConfig {
+  enabled: boolean;
+  table?: string; // Tabla de auditoría de OracleAuditSink (por defecto AUDIT_LOG)
+  excludeFields?: string[]; // Campos que no se registran en el diff (ej: contraseñas)
+}
+
 // Configuración de entidad
 export interface EntityConfig {
   tableName: string;
-  primaryKey: string;
+  primaryKey: string | string[]; // Uno o varios campos (clave compuesta)
   autoIncrement?: boolean;
+  quoteIdentifiers?: boolean; // Entrecomillar tabla y columnas (nombres sensibles a mayúsculas)
   displayName?: string;
   description?: string;
   fields: Record<string, FieldConfig>;
@@ -110,6 +276,12 @@ export interface EntityConfig {
   validationSchema?: ValidationSchema;
   cacheConfig?: CacheConfig;
   customActions?: Record<string, CustomActionConfig>;
+  relations?: Record<string, RelationConfig>;
+  projections?: Record<string, string[]>; // Listas de campos con nombre (ej: "list", "detail") para fields
+  textSearch?: TextSearchConfig;
+  audit?: AuditConfig;
+  softDelete?: SoftDeleteConfig;
+  versionField?: string; // Bloqueo optimista: campo numérico (contador), timestamp/date o "ORA_ROWSCN"
 }
 
 // Configuración completa de la aplicación
@@ -172,7 +344,7 @@ export interface OracleConfig {
 export interface QueryOptions {
   outFormat?: number;
   autoCommit?: boolean;
-  bindDefs?: Record<string, unknown>;
+  bindDefs?: Record<string, BindDefinition>;
   extendedMetaData?: boolean;
   fetchArraySize?: number;
   maxRows?: number;
@@ -198,6 +370,110 @@ export interface QueryResult<T = Record<string, unknown>> {
   lastRowid?: string;
 }
 
+// Resultado de executeMany
+export interface ExecuteManyResult {
+  rowsAffected?: number;
+  outBinds?: Record<string, unknown>[];
+  batchErrors?: OracleError[];
+  dmlRowCounts?: number[];
+}
+
+// Opciones de update/delete: versión leída del registro (bloqueo optimista con versionField)
+export interface WriteOptions {
+  expectedVersion?: string | number;
+}
+
+// Opciones de las operaciones masivas (createMany, updateMany, deleteMany)
+export interface BatchOptions {
+  continueOnError?: boolean; // Confirmar las filas válidas aunque otras fallen (por defecto se revierte todo)
+}
+
+// Error de una fila en una operación masiva (index = posición en la entrada)
+export interface BatchRowError {
+  index: number;
+  message: string;
+  errors?: ValidationError[];
+}
+
+// Resultado de una operación masiva
+export interface BatchResult {
+  rowsAffected: number;
+  ids?: Array<RecordId | null>; // IDs alineados con la entrada (null en filas con error)
+  errors: BatchRowError[];
+}
+
+// Opciones de upsert (MERGE)
+export interface UpsertOptions {
+  matchOn?: string[]; // Campos de coincidencia (por defecto, la clave primaria o el único campo unique)
+  reportAction?: boolean; // Usar un bloque PL/SQL (UPDATE o INSERT) que informe si hubo coincidencia (:upsert_matched)
+}
+
+// Acción realizada por un upsert
+export type UpsertAction = "inserted" | "updated";
+
+// Resultado de upsert
+export interface UpsertResult {
+  action: UpsertAction;
+  id?: RecordId;
+  record?: Record<string, unknown> | null;
+}
+
+// Resultado de upsertMany: acciones alineadas con la entrada (null en filas con error)
+export interface UpsertManyResult extends BatchResult {
+  actions: Array<UpsertAction | null>;
+}
+
+// Hooks del ciclo de vida de GenericController
+export type LifecycleHookName =
+  | "beforeValidate"
+  | "beforeCreate"
+  | "afterCreate"
+  | "beforeUpdate"
+  | "afterUpdate"
+  | "beforeDelete"
+  | "afterDelete"
+  | "afterFind";
+
+// Contexto recibido por los hooks (data y records pueden modificarse)
+export interface HookContext {
+  entity: string;
+  operation: "create" | "update" | "delete" | "find";
+  id?: RecordId;
+  data?: Record<string, unknown>;
+  existing?: Record<string, unknown>;
+  record?: Record<string, unknown> | null;
+  records?: Record<string, unknown>[];
+}
+
+export type LifecycleHook = (context: HookContext) => void | Promise<void>;
+
+// Operación registrada en la auditoría
+export type AuditOperation = "create" | "update" | "delete" | "action";
+
+// Cambio de un campo (null si el campo no existía antes o después)
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Entrada del historial de auditoría
+export interface AuditEntry {
+  entity: string;
+  recordId: string; // Valores de la clave primaria separados por comas
+  operation: AuditOperation;
+  action?: string; // Nombre de la acción personalizada (operation = "action")
+  actor: string | null;
+  timestamp: Date;
+  changes: AuditChange[];
+}
+
+// Destino de las entradas de auditoría
+export interface AuditSink {
+  write(entry: AuditEntry): Promise<void>;
+  findHistory(entity: string, recordId: string): Promise<AuditEntry[]>;
+}
+
 // Error personalizado de Oracle
 export interface OracleError extends Error {
   errorNum?: number;
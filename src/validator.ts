@@ -216,8 +216,13 @@ export class DataValidator {
     isUpdate: boolean,
     errors: ValidationError[],
   ): void {
+    // En claves compuestas, cada campo de la clave identifica el registro y es obligatorio
+    const compositeKey = Array.isArray(this.entityConfig.primaryKey) && this.entityConfig.primaryKey.length > 1
+      ? this.entityConfig.primaryKey
+      : [];
+
     Object.entries(this.entityConfig.fields).forEach(([fieldName, fieldConfig]) => {
-      if (fieldConfig.required && !fieldConfig.autoIncrement) {
+      if ((fieldConfig.required || compositeKey.includes(fieldName)) && !fieldConfig.autoIncrement) {
         const value = data[fieldName];
         const isEmpty = value === null || value === undefined || value === "";
 
@@ -4,8 +4,39 @@
  * Para ejecutar: deno test --allow-net --allow-read --allow-env
  */
 
-import { assertEquals, assertExists, assertInstanceOf } from "https://deno.land/std@0.208.0/assert/mod.ts";
-import { DataValidator, GenericController, MemoryCache, SqlBuilder, StoredProcedureExecutor } from "./mod.ts";
+import {
+  assertEquals,
+  assertExists,
+  assertInstanceOf,
+  assertRejects,
+  assertThrows,
+} from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+  BatchOperationError,
+  closePool,
+  ConcurrencyConflictError,
+  DataValidator,
+  EntityConfigManager,
+  GenericController,
+  getDefaultDialect,
+  HookVetoError,
+  initializePool,
+  InvalidIdentifierError,
+  MemoryCache,
+  OpenApiGenerator,
+  OperationNotAllowedError,
+  OracleConnection,
+  RelationLoader,
+  RestRouter,
+  runWithAuditContext,
+  SchemaIntrospector,
+  SqlBuilder,
+  SqlDialect,
+  StoredProcedureExecutor,
+  Transaction,
+  withTransaction,
+} from "./mod.ts";
+import type { AuditEntry, EntityConfig } from "./mod.ts";
 
 // Configuración de entidad para tests
 const testEntityConfig = {
@@ -133,6 +164,169 @@ Deno.test("SqlBuilder - SELECT query building", () => {
   assertEquals(orderedQuery.sql.includes("ORDER BY"), true);
 });
 
+Deno.test("SqlBuilder - operator filters", () => {
+  const builder = new SqlBuilder(testEntityConfig);
+
+  const query = builder.buildCountQuery({
+    filters: {
+      id: { gte: 10, lt: 20 },
+      name: { notLike: "X%" },
+      email: { isNull: true },
+      active: { in: [1, 0] },
+    },
+  });
+
+  assertEquals(
+    query.sql,
+    'SELECT COUNT(*) AS "total" FROM test_table WHERE id >= :filter_0 AND id < :filter_1 AND name NOT LIKE :filter_2' +
+      " AND email IS NULL AND active IN (:filter_3, :filter_4)",
+  );
+  assertEquals(query.params, { filter_0: 10, filter_1: 20, filter_2: "X%", filter_3: 1, filter_4: 0 });
+
+  // Filtros predefinidos respetan el operador configurado
+  const withPredefined = new SqlBuilder({
+    ...testEntityConfig,
+    filters: {
+      recientes: { field: "id", operator: ">=", value: 100, displayName: "Recientes" },
+      sinEmail: { field: "email", operator: "IS NULL", value: "", displayName: "Sin email" },
+    },
+  });
+  const options = withPredefined.applyPredefinedFilter("sinEmail", withPredefined.applyPredefinedFilter("recientes"));
+  assertEquals(options.filters, { id: { gte: 100 }, email: { isNull: true } });
+
+  assertThrows(() => builder.buildCountQuery({ filters: { id: { between: 1 } as never } }), Error, "no soportado");
+});
+
+Deno.test("SqlBuilder - nested filter expressions", () => {
+  const builder = new SqlBuilder(testEntityConfig);
+  const options = {
+    filters: { active: true },
+    where: {
+      or: [{ name: "A" }, { id: { gt: 3 } }],
+      not: { email: { in: ["a@x.com", "b@x.com"] } },
+    },
+  };
+
+  const countQuery = builder.buildCountQuery(options);
+  assertEquals(
+    countQuery.sql,
+    'SELECT COUNT(*) AS "total" FROM test_table WHERE active = :filter_0 AND (name = :filter_1 OR id > :filter_2)' +
+      " AND NOT (email IN (:filter_3, :filter_4))",
+  );
+  assertEquals(countQuery.params, {
+    filter_0: true,
+    filter_1: "A",
+    filter_2: 3,
+    filter_3: "a@x.com",
+    filter_4: "b@x.com",
+  });
+
+  // SELECT y COUNT comparten exactamente las mismas condiciones
+  const selectQuery = builder.buildSelectQuery(options);
+  assertEquals(selectQuery.sql.includes(countQuery.sql.split(" WHERE ")[1]), true);
+  assertEquals(selectQuery.params, { ...countQuery.params, row_offset: 0, row_limit: 10 });
+
+  const notOr = builder.buildCountQuery({ where: { not: { or: [{ id: 1 }, { and: [{ id: 2 }, { name: "B" }] }] } } });
+  assertEquals(
+    notOr.sql,
+    'SELECT COUNT(*) AS "total" FROM test_table WHERE NOT ((id = :filter_0 OR (id = :filter_1 AND name = :filter_2)))',
+  );
+
+  // Una alternativa vacía hace que el OR no restrinja nada
+  const alwaysTrue = builder.buildCountQuery({ where: { or: [{ name: "A" }, { email: null }], id: 5 } });
+  assertEquals(alwaysTrue.sql, 'SELECT COUNT(*) AS "total" FROM test_table WHERE id = :filter_1');
+  assertEquals(alwaysTrue.params, { filter_1: 5 });
+});
+
+Deno.test("SqlBuilder - identifier whitelisting and quoting", () => {
+  const builder = new SqlBuilder(testEntityConfig);
+
+  assertThrows(() => builder.buildSelectQuery({ orderBy: "name; DROP TABLE x" }), InvalidIdentifierError, "orderBy");
+  assertThrows(
+    () => builder.buildCountQuery({ search: "a", searchFields: ["(SELECT 1 FROM dual)"] }),
+    InvalidIdentifierError,
+  );
+  assertThrows(() => builder.buildCountQuery({ filters: { "1=1 OR id": 1 } }), InvalidIdentifierError, "filters");
+  assertThrows(() => builder.buildCountQuery({ where: { not: { unknown: 1 } } }), InvalidIdentifierError);
+  assertThrows(
+    () => builder.buildSelectQuery({ orderDirection: "ASC, 1" as "ASC" }),
+    InvalidIdentifierError,
+    "orderDirection",
+  );
+
+  // Dirección normalizada y nombres resueltos sin distinguir mayúsculas
+  const ordered = builder.buildSelectQuery({ orderBy: "NAME", orderDirection: "desc" as "DESC" });
+  assertEquals(ordered.sql.includes("ORDER BY name DESC"), true);
+
+  const quoted = new SqlBuilder({ ...testEntityConfig, tableName: "app.test_table", quoteIdentifiers: true });
+  assertEquals(
+    quoted.buildDeleteQuery(1).sql,
+    'DELETE FROM "app"."test_table" WHERE "id" = :id',
+  );
+  assertEquals(
+    quoted.buildCountQuery({ filters: { name: "x" } }).sql,
+    'SELECT COUNT(*) AS "total" FROM "app"."test_table" WHERE "name" = :filter_0',
+  );
+});
+
+Deno.test("SqlBuilder - field to column mapping", () => {
+  const builder = new SqlBuilder({
+    tableName: "LEGACY_EMP",
+    primaryKey: "employeeId",
+    fields: {
+      employeeId: { type: "number", column: "EMP_ID", primaryKey: true },
+      fullName: { type: "string", column: "EMP_NAME" },
+    },
+  });
+
+  const byId = builder.buildSelectByIdQuery(7);
+  assertEquals(
+    byId.sql,
+    'SELECT EMP_ID AS "employeeId", EMP_NAME AS "fullName" FROM LEGACY_EMP WHERE EMP_ID = :id',
+  );
+
+  const select = builder.buildSelectQuery({ filters: { fullName: { like: "A%" } }, orderBy: "fullName" });
+  assertEquals(select.sql.includes("WHERE EMP_NAME LIKE :filter_0 ORDER BY EMP_NAME ASC"), true);
+  assertEquals(select.sql.includes('SELECT "employeeId", "fullName", ROWNUM "__rnum" FROM'), true);
+
+  const insert = builder.buildInsertQuery({ employeeId: 7, fullName: "Ana" });
+  assertEquals(insert.sql, "INSERT INTO LEGACY_EMP (EMP_ID, EMP_NAME) VALUES (:employeeId, :fullName)");
+  assertEquals(insert.params, { employeeId: 7, fullName: "Ana" });
+
+  const update = builder.buildUpdateQuery(7, { fullName: "Ana" });
+  assertEquals(update.sql, "UPDATE LEGACY_EMP SET EMP_NAME = :fullName WHERE EMP_ID = :id");
+});
+
+Deno.test("SqlBuilder - composite primary keys", () => {
+  const builder = new SqlBuilder({
+    tableName: "order_lines",
+    primaryKey: ["ORDER_ID", "LINE_NO"],
+    fields: {
+      ORDER_ID: { type: "number", primaryKey: true },
+      LINE_NO: { type: "number", primaryKey: true },
+      QTY: { type: "number" },
+    },
+  });
+
+  const selectById = builder.buildSelectByIdQuery({ LINE_NO: 3, order_id: 10 });
+  assertEquals(selectById.sql.endsWith("WHERE ORDER_ID = :id_0 AND LINE_NO = :id_1"), true);
+  assertEquals(selectById.params, { id_0: 10, id_1: 3 });
+
+  const update = builder.buildUpdateQuery({ ORDER_ID: 10, LINE_NO: 3 }, { ORDER_ID: 99, QTY: 5 });
+  assertEquals(update.sql, "UPDATE order_lines SET QTY = :QTY WHERE ORDER_ID = :id_0 AND LINE_NO = :id_1");
+  assertEquals(update.params, { id_0: 10, id_1: 3, QTY: 5 });
+
+  const deleteBatch = builder.buildDeleteManyQuery([{ ORDER_ID: 10, LINE_NO: 3 }, { ORDER_ID: 10, LINE_NO: 4 }]);
+  assertEquals(deleteBatch.binds, [{ id_0: 10, id_1: 3 }, { id_0: 10, id_1: 4 }]);
+  assertEquals(Object.keys(deleteBatch.bindDefs), ["id_0", "id_1"]);
+
+  // Sin orderBy se ordena por todos los campos de la clave
+  assertEquals(builder.buildSelectQuery().sql.includes("ORDER BY ORDER_ID ASC, LINE_NO ASC"), true);
+
+  assertThrows(() => builder.buildDeleteQuery(10), Error, "clave primaria es compuesta");
+  assertThrows(() => builder.buildDeleteQuery({ ORDER_ID: 10 }), Error, "'LINE_NO'");
+});
+
 Deno.test("SqlBuilder - INSERT query building", () => {
   const builder = new SqlBuilder(testEntityConfig);
 
@@ -149,6 +343,87 @@ Deno.test("SqlBuilder - INSERT query building", () => {
   assertExists(insertQuery.params);
 });
 
+Deno.test("SqlBuilder - bulk DML for executeMany", () => {
+  const builder = new SqlBuilder({ ...testEntityConfig, autoIncrement: true });
+
+  const insertBatch = builder.buildInsertManyQuery([
+    { name: "Ana", email: "ana@example.com" },
+    { name: "Luis", email: "luis@example.com", active: false },
+  ]);
+  assertEquals(
+    insertBatch.sql,
+    "INSERT INTO test_table (name, email, active) VALUES (:name, :email, :active) RETURNING id INTO :new_id",
+  );
+  assertEquals(insertBatch.binds[0], { name: "Ana", email: "ana@example.com", active: null });
+  assertEquals(insertBatch.bindDefs.new_id, { type: "NUMBER", dir: "OUT" });
+  assertEquals(insertBatch.bindDefs.name, { type: "STRING", maxSize: 4000 });
+
+  const updateBatch = builder.buildUpdateManyQuery([
+    { id: 1, data: { name: "Ana" } },
+    { id: 2, data: { name: "Luis" } },
+  ]);
+  assertEquals(updateBatch.sql, "UPDATE test_table SET name = :name WHERE id = :id");
+  assertEquals(updateBatch.binds, [{ id: 1, name: "Ana" }, { id: 2, name: "Luis" }]);
+  assertThrows(
+    () => builder.buildUpdateManyQuery([{ id: 1, data: { name: "Ana" } }, { id: 2, data: { email: "x@y.z" } }]),
+    Error,
+    "Todas las filas deben incluir los campos",
+  );
+
+  const deleteBatch = builder.buildDeleteManyQuery([1, 2, 3]);
+  assertEquals(deleteBatch.sql, "DELETE FROM test_table WHERE id = :id");
+  assertEquals(deleteBatch.binds.length, 3);
+});
+
+Deno.test("SqlBuilder - MERGE upsert building", () => {
+  const builder = new SqlBuilder({
+    ...testEntityConfig,
+    fields: { ...testEntityConfig.fields, email: { ...testEntityConfig.fields.email, unique: true } },
+  });
+
+  // matchOn por defecto: campos unique
+  const upsert = builder.buildUpsertQuery({ name: "Ana", email: "ana@example.com" });
+  assertEquals(
+    upsert.sql,
+    'MERGE INTO test_table t USING (SELECT :name AS "name", :email AS "email" FROM dual) s ON (t.email = s."email")' +
+      ' WHEN MATCHED THEN UPDATE SET t.name = s."name"' +
+      ' WHEN NOT MATCHED THEN INSERT (name, email) VALUES (s."name", s."email")',
+  );
+  assertEquals(upsert.params, { name: "Ana", email: "ana@example.com" });
+
+  // matchOn explícito sobre la clave primaria, informando la acción de la sentencia que escribió la fila
+  const byId = builder.buildUpsertQuery({ id: 7, name: "Ana" }, { matchOn: ["ID"], reportAction: true });
+  assertEquals(
+    byId.sql,
+    "BEGIN UPDATE test_table SET name = :name WHERE id = :id; IF SQL%ROWCOUNT = 0 THEN " +
+      "INSERT INTO test_table (name) VALUES (:name); :upsert_matched := 0; ELSE :upsert_matched := 1; END IF; " +
+      "EXCEPTION WHEN DUP_VAL_ON_INDEX THEN UPDATE test_table SET name = :name WHERE id = :id; " +
+      "IF SQL%ROWCOUNT = 0 THEN RAISE; END IF; :upsert_matched := 1; END;",
+  );
+
+  // La clave primaria tiene prioridad; con varios campos unique hay que indicar matchOn
+  assertEquals(builder.buildUpsertQuery({ id: 7, email: "ana@example.com" }).sql.includes('ON (t.id = s."id")'), true);
+  const twoUnique = new SqlBuilder({
+    ...testEntityConfig,
+    fields: {
+      ...testEntityConfig.fields,
+      name: { ...testEntityConfig.fields.name, unique: true },
+      email: { ...testEntityConfig.fields.email, unique: true },
+    },
+  });
+  assertThrows(() => twoUnique.buildUpsertQuery({ name: "Ana", email: "ana@example.com" }), Error, "indique matchOn");
+
+  assertThrows(() => builder.buildUpsertQuery({ name: "Ana" }), Error, "requerido para el upsert");
+  assertThrows(() => builder.buildUpsertQuery({ name: "Ana" }, { matchOn: ["nope"] }), InvalidIdentifierError);
+
+  const batch = builder.buildUpsertManyQuery(
+    [{ name: "Ana", email: "ana@example.com" }, { name: "Luis", email: "luis@example.com" }],
+    { reportAction: true },
+  );
+  assertEquals(batch.binds.length, 2);
+  assertEquals(batch.bindDefs.upsert_matched, { type: "NUMBER", dir: "OUT" });
+});
+
 Deno.test("SqlBuilder - UPDATE query building", () => {
   const builder = new SqlBuilder(testEntityConfig);
 
@@ -177,6 +452,143 @@ Deno.test("SqlBuilder - DELETE query building", () => {
   assertExists(deleteQuery.params);
 });
 
+Deno.test("SqlBuilder - soft delete filtering and statements", () => {
+  const timestamps = new SqlBuilder({
+    ...testEntityConfig,
+    fields: { ...testEntityConfig.fields, deletedAt: { type: "timestamp", column: "DELETED_AT" } },
+    softDelete: { field: "deletedAt" },
+  });
+
+  assertEquals(timestamps.buildCountQuery().sql.endsWith("WHERE DELETED_AT IS NULL"), true);
+  assertEquals(timestamps.buildCountQuery({ withDeleted: true }).sql.includes("WHERE"), false);
+  assertEquals(timestamps.buildCountQuery({ onlyDeleted: true }).sql.endsWith("WHERE DELETED_AT IS NOT NULL"), true);
+  assertEquals(
+    timestamps.buildSelectByIdQuery(1).sql.endsWith("WHERE id = :id AND DELETED_AT IS NULL"),
+    true,
+  );
+  assertEquals(
+    timestamps.buildSoftDeleteQuery(1).sql,
+    "UPDATE test_table SET DELETED_AT = SYSTIMESTAMP WHERE id = :id AND DELETED_AT IS NULL",
+  );
+
+  const flags = new SqlBuilder({
+    ...testEntityConfig,
+    softDelete: { field: "active", deletedValue: 0, activeValue: 1 },
+  });
+  const restore = flags.buildRestoreQuery(1);
+  assertEquals(restore.sql, "UPDATE test_table SET active = :sd_active WHERE id = :id AND active = :sd_deleted");
+  assertEquals(restore.params, { id: 1, sd_active: 1, sd_deleted: 0 });
+
+  const batch = flags.buildSoftDeleteManyQuery([1, 2]);
+  assertEquals(batch.binds[1], { id: 2, sd_deleted: 0, sd_active: 1 });
+  assertEquals(batch.bindDefs.sd_deleted, { type: "BOOLEAN" });
+
+  // updateMany no modifica registros borrados y el upsert restaura el registro borrado que coincide
+  const updateBatch = timestamps.buildUpdateManyQuery([{ id: 1, data: { name: "Ana" } }]);
+  assertEquals(updateBatch.sql, "UPDATE test_table SET name = :name WHERE id = :id AND DELETED_AT IS NULL");
+  const upsert = flags.buildUpsertQuery({ id: 1, name: "Ana" });
+  assertEquals(upsert.sql.includes('WHEN MATCHED THEN UPDATE SET t.name = s."name", t.active = :sd_active'), true);
+  assertEquals(upsert.params, { sd_active: 1, name: "Ana", id: 1 });
+  assertEquals(flags.buildUpsertManyQuery([{ id: 1, name: "Ana" }]).binds[0].sd_active, 1);
+
+  assertThrows(() => new SqlBuilder(testEntityConfig).buildRestoreQuery(1), Error, "borrado lógico");
+});
+
+Deno.test("SqlBuilder - optimistic locking with version fields", () => {
+  const counter = new SqlBuilder({
+    ...testEntityConfig,
+    fields: { ...testEntityConfig.fields, version: { type: "number", column: "ROW_VERSION" } },
+    versionField: "version",
+  });
+
+  const update = counter.buildUpdateQuery(1, { name: "Ana", version: 99 }, "3");
+  assertEquals(
+    update.sql,
+    "UPDATE test_table SET name = :name, ROW_VERSION = ROW_VERSION + 1 WHERE id = :id AND ROW_VERSION = :expected_version",
+  );
+  assertEquals(update.params, { id: 1, expected_version: 3, name: "Ana" });
+  assertEquals(counter.buildInsertQuery({ name: "Ana" }).sql.includes("(name, ROW_VERSION) VALUES (:name, 1)"), true);
+  assertEquals(counter.getVersionToken({ version: 4 }), "4");
+  assertThrows(() => counter.buildDeleteQuery(1, "abc"), ConcurrencyConflictError);
+
+  const rowscn = new SqlBuilder({ ...testEntityConfig, versionField: "ORA_ROWSCN" });
+  assertEquals(rowscn.buildSelectByIdQuery(1).sql.includes('ORA_ROWSCN AS "ORA_ROWSCN"'), true);
+  assertEquals(rowscn.buildDeleteQuery(1, 812).sql.endsWith("AND ORA_ROWSCN = :expected_version"), true);
+});
+
+Deno.test("SqlBuilder - keyset pagination with opaque cursors", () => {
+  const builder = new SqlBuilder(testEntityConfig);
+
+  const cursor = builder.encodeCursor({ id: 20, name: "Ñandú" }, "name");
+  const query = builder.buildKeysetQuery({ after: cursor, orderBy: "name", pageSize: 5 });
+  assertEquals(query.sql.includes("WHERE ((name > :cursor_0) OR (name = :cursor_0 AND id > :cursor_1))"), true);
+  assertEquals(query.sql.includes("ORDER BY name ASC, id ASC) WHERE ROWNUM <= :row_limit"), true);
+  assertEquals(query.params, { cursor_0: "Ñandú", cursor_1: 20, row_limit: 6 });
+
+  // Hacia atrás se invierte el orden y la comparación
+  const previous = builder.buildKeysetQuery({ before: builder.encodeCursor({ id: 3 }), orderDirection: "DESC" });
+  assertEquals(previous.sql.includes("(id > :cursor_0)") && previous.sql.includes("ORDER BY id ASC"), true);
+
+  assertEquals(builder.buildKeysetQuery({ after: null }).sql.includes(":cursor_"), false);
+  assertThrows(() => builder.buildKeysetQuery({ after: "no-es-un-cursor" }), InvalidIdentifierError, "Cursor");
+
+  // Campos que admiten NULL: en ASC los NULL van al final, en DESC al principio
+  const afterValue = builder.buildKeysetQuery({
+    after: builder.encodeCursor({ id: 7, active: 1 }, "active"),
+    orderBy: "active",
+  });
+  assertEquals(
+    afterValue.sql.includes(
+      "WHERE ((active > :cursor_0 OR active IS NULL) OR (active = :cursor_0 AND id > :cursor_1))",
+    ),
+    true,
+  );
+  const afterNull = builder.buildKeysetQuery({ after: builder.encodeCursor({ id: 7 }, "active"), orderBy: "active" });
+  assertEquals(afterNull.sql.includes("WHERE ((active IS NULL AND id > :cursor_1))"), true);
+  assertEquals(afterNull.params, { cursor_1: 7, row_limit: 11 });
+  const descNull = builder.buildKeysetQuery({
+    after: builder.encodeCursor({ id: 7 }, "active"),
+    orderBy: "active",
+    orderDirection: "DESC",
+  });
+  assertEquals(descNull.sql.includes("WHERE ((active IS NOT NULL) OR (active IS NULL AND id < :cursor_1))"), true);
+});
+
+Deno.test("SqlDialect - pagination strategy per Oracle version", () => {
+  assertEquals(SqlDialect.fromBanner("Oracle Database 11g Enterprise Edition Release 11.2.0.4.0").version, "11g");
+  assertEquals(SqlDialect.fromBanner("Oracle Database 19c Enterprise Edition Release 19.0.0.0.0").version, "12c");
+  assertEquals(SqlDialect.fromBanner("Oracle Database 23ai Free Release 23.0.0.0.0").version, "23ai");
+
+  const builder = new SqlBuilder(testEntityConfig, new SqlDialect("12c"));
+  const select = builder.buildSelectQuery({ page: 3, pageSize: 20 });
+  assertEquals(select.sql.endsWith("ORDER BY id ASC OFFSET :row_offset ROWS FETCH NEXT :row_limit ROWS ONLY"), true);
+  assertEquals(select.params, { row_offset: 40, row_limit: 20 });
+  assertEquals(
+    builder.buildKeysetQuery({ after: null }).sql.endsWith("ORDER BY id ASC FETCH FIRST :row_limit ROWS ONLY"),
+    true,
+  );
+
+  const legacy = new SqlBuilder(testEntityConfig, new SqlDialect("11g")).buildSelectQuery({ page: 3, pageSize: 20 });
+  assertEquals(legacy.sql.includes('WHERE ROWNUM <= :row_offset + :row_limit) WHERE "__rnum" > :row_offset'), true);
+});
+
+Deno.test("GenericController - uses the connection dialect without changing the default", async () => {
+  const { driver, calls } = createFakeOracleDriver();
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE", dialect: "12c" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    assertEquals(getDefaultDialect().version, "11g");
+    const controller = new GenericController(testEntityConfig, cache);
+    await controller.findAll({ page: 2, pageSize: 10 });
+    assertEquals(calls.some((call) => call.includes("OFFSET :row_offset ROWS FETCH NEXT :row_limit ROWS ONLY")), true);
+    assertEquals(new SqlBuilder(testEntityConfig).getDialect().version, "11g");
+  } finally {
+    cache.destroy();
+    await closePool();
+  }
+});
+
 Deno.test("SqlBuilder - COUNT query building", () => {
   const builder = new SqlBuilder(testEntityConfig);
 
@@ -189,6 +601,63 @@ Deno.test("SqlBuilder - COUNT query building", () => {
   assertExists(countQuery.params);
 });
 
+Deno.test("SqlBuilder - aggregation with GROUP BY and HAVING", () => {
+  const builder = new SqlBuilder(testEntityConfig);
+
+  const query = builder.buildAggregateQuery({
+    metrics: {
+      total: { fn: "count" },
+      emails: { fn: "countDistinct", field: "email" },
+      maxId: { fn: "max", field: "id" },
+    },
+    groupBy: ["active"],
+    filters: { name: { like: "A%" } },
+    having: { total: { gt: 1 } },
+    orderBy: "total",
+    orderDirection: "DESC",
+  });
+  assertEquals(
+    query.sql,
+    'SELECT active AS "active", COUNT(*) AS "total", COUNT(DISTINCT email) AS "emails", MAX(id) AS "maxId" ' +
+      "FROM test_table WHERE name LIKE :filter_0 GROUP BY active HAVING COUNT(*) > :having_0 " +
+      'ORDER BY "total" DESC',
+  );
+  assertEquals(query.params, { filter_0: "A%", having_0: 1 });
+
+  assertThrows(() => builder.buildAggregateQuery({ metrics: { s: { fn: "sum", field: "name" } } }), Error, "numérico");
+  assertThrows(() => builder.buildAggregateQuery({ metrics: { 'x"': { fn: "count" } } }), InvalidIdentifierError);
+  assertThrows(
+    () => builder.buildAggregateQuery({ metrics: { total: { fn: "count" } }, having: { other: { gt: 1 } } }),
+    InvalidIdentifierError,
+  );
+});
+
+Deno.test("SqlBuilder - text search strategies escape user input", () => {
+  const like = new SqlBuilder(testEntityConfig).buildCountQuery({ search: "100%_off", searchFields: ["name"] });
+  assertEquals(like.sql.endsWith("WHERE (UPPER(name) LIKE UPPER(:search_pattern) ESCAPE '\\')"), true);
+  assertEquals(like.params, { search_pattern: "%100\\%\\_off%" });
+
+  const contains = new SqlBuilder({ ...testEntityConfig, textSearch: { strategy: "contains" } })
+    .buildSelectQuery({ search: "near AND {x}", searchFields: ["name", "email"] });
+  assertEquals(
+    contains.sql.includes(
+      "WHERE (CONTAINS(name, :search_text, 1) > 0 OR CONTAINS(email, :search_text, 2) > 0) " +
+        "ORDER BY GREATEST(SCORE(1), SCORE(2)) DESC, id ASC",
+    ),
+    true,
+  );
+  assertEquals(contains.params.search_text, "{near} AND {AND} AND {{x}}}");
+
+  const fuzzy = new SqlBuilder({ ...testEntityConfig, textSearch: { strategy: "fuzzy", fuzzyThreshold: 90 } })
+    .buildSelectQuery({ search: "Jhon", searchFields: ["name"], orderBy: "email" });
+  assertEquals(
+    fuzzy.sql.includes("UTL_MATCH.JARO_WINKLER_SIMILARITY(UPPER(name), UPPER(:search_text)) >= :search_threshold"),
+    true,
+  );
+  assertEquals(fuzzy.sql.includes("ORDER BY email ASC"), true);
+  assertEquals(fuzzy.params.search_threshold, 90);
+});
+
 Deno.test("DataValidator - basic validation", () => {
   const validator = new DataValidator(testEntityConfig);
 
@@ -253,6 +722,35 @@ Deno.test("GenericController - instantiation", () => {
   }
 });
 
+Deno.test("GenericController - disabled operations are rejected", async () => {
+  const cache = new MemoryCache({
+    defaultTTL: 300,
+    maxSize: 100,
+    cleanupInterval: 60000,
+  });
+
+  try {
+    const readOnlyConfig = {
+      ...testEntityConfig,
+      operations: { ...testEntityConfig.operations, create: false, update: false, delete: false },
+    };
+    const controller = new GenericController(readOnlyConfig, cache);
+
+    await assertRejects(() => controller.create({ name: "Ana" }), OperationNotAllowedError, "'create'");
+    await assertRejects(() => controller.update(1, { name: "Ana" }), OperationNotAllowedError, "'update'");
+    await assertRejects(() => controller.delete(1), OperationNotAllowedError, "'delete'");
+
+    const hiddenController = new GenericController(
+      { ...testEntityConfig, operations: { ...testEntityConfig.operations, read: false } },
+      cache,
+    );
+    await assertRejects(() => hiddenController.findAll(), OperationNotAllowedError, "'read'");
+    await assertRejects(() => hiddenController.findById(1), OperationNotAllowedError, "'read'");
+  } finally {
+    cache.destroy();
+  }
+});
+
 Deno.test("Cache cleanup and destroy", () => {
   const cache = new MemoryCache({
     defaultTTL: 300,
@@ -273,6 +771,305 @@ Deno.test("Cache cleanup and destroy", () => {
   cache.destroy();
 });
 
+// === TESTS PARA LA API REST ===
+
+Deno.test("RestRouter - query string parsing and error mapping", async () => {
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    const appConfig = {
+      entities: {
+        users: {
+          ...testEntityConfig,
+          fields: { ...testEntityConfig.fields, name: { ...testEntityConfig.fields.name, searchable: true } },
+          operations: { ...testEntityConfig.operations, delete: false },
+        },
+      },
+      settings: {
+        defaultPageSize: 20,
+        maxPageSize: 50,
+        dateFormat: "YYYY-MM-DD",
+        timestampFormat: "YYYY-MM-DD HH24:MI:SS",
+        errorMessages: {},
+        features: {},
+      },
+    };
+    const router = new RestRouter(appConfig, { basePath: "/api", cache });
+
+    const options = router.parseSearchOptions(
+      appConfig.entities.users,
+      new URLSearchParams(
+        "page=2&pageSize=500&search=ana&sort=-name&filter[id][gte]=10&filter[id][in]=1,2&filter[email]=a",
+      ),
+    );
+    assertEquals(options, {
+      page: 2,
+      pageSize: 50,
+      search: "ana",
+      searchFields: ["name"],
+      orderBy: "name",
+      orderDirection: "DESC",
+      filters: { id: { gte: 10, in: [1, 2] }, email: "a" },
+    });
+
+    const notFound = await router.handle(new Request("http://localhost/api/unknown"));
+    assertEquals(notFound.status, 404);
+    assertEquals((await router.handle(new Request("http://localhost/api/constructor"))).status, 404);
+    assertEquals((await router.handle(new Request("http://localhost/api/users/%E0"))).status, 400);
+
+    const notAllowed = await router.handle(new Request("http://localhost/api/users/1", { method: "DELETE" }));
+    assertEquals(notAllowed.status, 405);
+
+    const badPage = await router.handle(new Request("http://localhost/api/users?page=0"));
+    assertEquals(badPage.status, 400);
+
+    const badExport = await router.handle(new Request("http://localhost/api/users/_export?sort=missing"));
+    assertEquals(badExport.status, 400);
+
+    const invalid = await router.handle(
+      new Request("http://localhost/api/users", { method: "POST", body: JSON.stringify({ email: "a@b.com" }) }),
+    );
+    assertEquals(invalid.status, 400);
+    const body = await invalid.json();
+    assertEquals(body.details[0].field, "name");
+  } finally {
+    cache.destroy();
+  }
+});
+
+Deno.test("RestRouter - controllers use the configured settings", async () => {
+  const { driver, calls, driverArgs } = createFakeOracleDriver();
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    const router = new RestRouter({
+      entities: { users: { ...testEntityConfig, operations: { paginate: false } } },
+      settings: {
+        defaultPageSize: 10,
+        maxPageSize: 20,
+        dateFormat: "YYYY-MM-DD",
+        timestampFormat: "YYYY-MM-DD HH24:MI:SS",
+        errorMessages: {},
+        features: {},
+      },
+    }, { cache });
+
+    const list = await router.handle(new Request("http://localhost/users?pageSize=5"));
+    assertEquals((await list.json()).pagination.pageSize, 20);
+
+    await (await router.handle(new Request("http://localhost/users/_export?format=ndjson"))).text();
+    const exportIndex = calls.findLastIndex((call) => call.startsWith("SELECT"));
+    assertEquals(calls[exportIndex].includes("WHERE ROWNUM <= :row_limit"), true);
+    assertEquals((driverArgs.at(-1)!.binds as Record<string, unknown>).row_limit, 20);
+  } finally {
+    cache.destroy();
+    await closePool();
+  }
+});
+
+Deno.test("RestRouter - missing deletes and unexpected errors", async () => {
+  const { driver } = createFakeOracleDriver(
+    (sql) => {
+      if (sql.includes("ORA_FAIL")) {
+        throw new Error("ORA-00942: table or view does not exist");
+      }
+      return sql.startsWith("SELECT") ? [{ id: 1, name: "Ana", email: "ana@example.com" }] : [];
+    },
+    (sql) => sql.startsWith("DELETE") ? 0 : 1,
+  );
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+  const originalConsoleError = console.error;
+  console.error = () => {};
+
+  try {
+    const router = new RestRouter({
+      entities: { users: testEntityConfig, broken: { ...testEntityConfig, tableName: "ORA_FAIL" } },
+      settings: {
+        defaultPageSize: 10,
+        maxPageSize: 100,
+        dateFormat: "YYYY-MM-DD",
+        timestampFormat: "YYYY-MM-DD HH24:MI:SS",
+        errorMessages: {},
+        features: {},
+      },
+    }, { cache });
+
+    // El registro existía pero el DELETE no afectó filas
+    const deleted = await router.handle(new Request("http://localhost/users/1", { method: "DELETE" }));
+    assertEquals(deleted.status, 404);
+
+    // Los registros con ID "facets" o "export" siguen accesibles: las rutas son /_facets y /_export
+    const facetsRecord = await router.handle(new Request("http://localhost/users/facets"));
+    assertEquals((await facetsRecord.json()).name, "Ana");
+    const facets = await router.handle(new Request("http://localhost/users/_facets?facets=name"));
+    assertEquals(facets.status, 200);
+    const exportRecord = await router.handle(new Request("http://localhost/users/export"));
+    assertEquals((await exportRecord.json()).name, "Ana");
+
+    // Los errores inesperados no exponen el mensaje de Oracle
+    const failed = await router.handle(new Request("http://localhost/broken/1"));
+    assertEquals(failed.status, 500);
+    assertEquals(await failed.json(), { error: "Error interno del servidor" });
+  } finally {
+    console.error = originalConsoleError;
+    cache.destroy();
+    await closePool();
+  }
+});
+
+Deno.test("OpenApiGenerator - documents entity routes and schemas", () => {
+  const document = new OpenApiGenerator({
+    entities: {
+      orders: {
+        tableName: "ORDERS",
+        primaryKey: "id",
+        fields: {
+          id: { type: "integer", primaryKey: true, autoIncrement: true },
+          code: { type: "varchar2", length: 20, required: true },
+          status: { type: "char", values: [{ value: "A", label: "Activo" }] },
+        },
+        operations: { create: true, read: true, update: false, delete: false, search: true, paginate: true },
+        customActions: { close: { type: "update", sql: "...", displayName: "Cerrar", description: "Cierra" } },
+      },
+    },
+    settings: {
+      defaultPageSize: 10,
+      maxPageSize: 100,
+      dateFormat: "YYYY-MM-DD",
+      timestampFormat: "YYYY-MM-DD HH24:MI:SS",
+      errorMessages: {},
+      features: {},
+    },
+  }, { basePath: "/api" }).generate();
+
+  assertEquals(document.openapi, "3.1.0");
+  assertEquals(Object.keys(document.paths), [
+    "/api/orders",
+    "/api/orders/{id}",
+    "/api/orders/_facets",
+    "/api/orders/_export",
+    "/api/orders/{id}/actions/close",
+  ]);
+  assertEquals(Object.keys(document.paths["/api/orders"]), ["get", "post"]);
+  assertEquals(Object.keys(document.paths["/api/orders/{id}"]), ["parameters", "get"]);
+
+  const schemas = document.components.schemas;
+  assertExists(schemas.OrdersPage);
+  assertEquals(schemas.OrdersUpdate, undefined);
+  assertEquals(schemas.OrdersCreate.required, ["code"]);
+  assertEquals((schemas.OrdersCreate.properties as Record<string, unknown>).id, undefined);
+  assertEquals((schemas.Orders.properties as Record<string, Record<string, unknown>>).status, {
+    type: ["string", "null"],
+    enum: ["A", null],
+    "x-enum-labels": ["Activo"],
+  });
+  assertEquals(
+    (document.components.parameters.pageSize as { schema: { maximum: number } }).schema.maximum,
+    100,
+  );
+});
+
+// === TESTS PARA INTROSPECCIÓN ===
+
+Deno.test("SchemaIntrospector - builds entity configs from dictionary metadata", () => {
+  const introspector = new SchemaIntrospector();
+  const entities = introspector.buildEntityConfigs({
+    columns: [
+      {
+        TABLE_NAME: "ORDERS",
+        COLUMN_NAME: "ORDER_ID",
+        DATA_TYPE: "NUMBER",
+        DATA_PRECISION: 10,
+        DATA_SCALE: 0,
+        NULLABLE: "N",
+      },
+      { TABLE_NAME: "ORDERS", COLUMN_NAME: "ORDER_CODE", DATA_TYPE: "VARCHAR2", CHAR_LENGTH: 20, NULLABLE: "N" },
+      { TABLE_NAME: "ORDERS", COLUMN_NAME: "STATUS", DATA_TYPE: "CHAR", CHAR_LENGTH: 1, NULLABLE: "Y" },
+      { TABLE_NAME: "ORDERS", COLUMN_NAME: "CREATED_AT", DATA_TYPE: "TIMESTAMP(6)", NULLABLE: "Y" },
+      { TABLE_NAME: "AUDIT_LOG", COLUMN_NAME: "MESSAGE", DATA_TYPE: "CLOB", NULLABLE: "Y" },
+    ],
+    constraints: [
+      { TABLE_NAME: "ORDERS", CONSTRAINT_NAME: "ORDERS_PK", CONSTRAINT_TYPE: "P", COLUMN_NAME: "ORDER_ID" },
+      { TABLE_NAME: "ORDERS", CONSTRAINT_NAME: "ORDERS_UK", CONSTRAINT_TYPE: "U", COLUMN_NAME: "ORDER_CODE" },
+      {
+        TABLE_NAME: "ORDERS",
+        CONSTRAINT_NAME: "ORDERS_STATUS_CK",
+        CONSTRAINT_TYPE: "C",
+        SEARCH_CONDITION: "STATUS IN ('A', 'C')",
+        COLUMN_NAME: "STATUS",
+      },
+    ],
+    comments: [{ TABLE_NAME: "ORDERS", COLUMN_NAME: "ORDER_CODE", COMMENTS: "Código externo" }],
+    identityColumns: [{ TABLE_NAME: "ORDERS", COLUMN_NAME: "ORDER_ID" }],
+  }, { fieldNaming: "camelCase" });
+
+  // Tablas sin clave primaria se omiten
+  assertEquals(Object.keys(entities), ["orders"]);
+
+  const orders = entities.orders;
+  assertEquals(orders.tableName, "ORDERS");
+  assertEquals(orders.primaryKey, "orderId");
+  assertEquals(orders.autoIncrement, true);
+  assertEquals(orders.fields.orderId, { type: "INTEGER", column: "ORDER_ID", primaryKey: true, autoIncrement: true });
+  assertEquals(orders.fields.orderCode, {
+    type: "VARCHAR2",
+    column: "ORDER_CODE",
+    length: 20,
+    required: true,
+    unique: true,
+    description: "Código externo",
+  });
+  assertEquals(orders.fields.status.values, [{ value: "A", label: "A" }, { value: "C", label: "C" }]);
+  assertEquals(orders.fields.createdAt.type, "TIMESTAMP");
+});
+
+Deno.test("SchemaIntrospector - reads LONG search conditions on servers before 12.2", async () => {
+  const { driver, calls } = createFakeOracleDriver();
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+
+  try {
+    assertEquals(await new SchemaIntrospector().introspect({ tables: ["ORDERS"] }), {});
+    const queries = calls.filter((call) => call.includes("SELECT"));
+    assertEquals(queries.length, 4);
+    assertEquals(queries.some((sql) => sql.includes("c.search_condition AS search_condition")), true);
+    assertEquals(queries.some((sql) => sql.includes("FROM all_tab_identity_cols")), false);
+  } finally {
+    await closePool();
+  }
+});
+
+Deno.test("EntityConfigManager - merge keeps hand-written overrides", () => {
+  const merged = EntityConfigManager.mergeEntityConfig(
+    {
+      tableName: "ORDERS",
+      primaryKey: "ORDER_ID",
+      displayName: "Pedidos",
+      fields: {
+        ORDER_ID: { type: "NUMBER", primaryKey: true, displayName: "Nº" },
+        TOTAL_CALC: { type: "NUMBER", readonly: true },
+      },
+      operations: { create: false, read: true },
+    },
+    {
+      tableName: "ORDERS",
+      primaryKey: "ORDER_ID",
+      fields: {
+        ORDER_ID: { type: "INTEGER", primaryKey: true, required: true },
+        NOTES: { type: "VARCHAR2", length: 200 },
+      },
+      operations: { create: true, read: true, update: true, delete: true, search: true, paginate: true },
+    },
+  );
+
+  assertEquals(merged.displayName, "Pedidos");
+  assertEquals(merged.operations, { create: false, read: true });
+  assertEquals(merged.fields.ORDER_ID, { type: "NUMBER", primaryKey: true, required: true, displayName: "Nº" });
+  assertEquals(merged.fields.NOTES, { type: "VARCHAR2", length: 200 });
+  assertEquals(merged.fields.TOTAL_CALC, { type: "NUMBER", readonly: true });
+});
+
 // === TESTS PARA PROCEDIMIENTOS ALMACENADOS ===
 
 Deno.test("StoredProcedureExecutor - instantiation", () => {
@@ -329,4 +1126,698 @@ Deno.test("GenericController - stored procedure integration", () => {
   }
 });
 
+// === TESTS PARA TRANSACCIONES ===
+
+// Driver Oracle simulado que registra las llamadas hechas sobre cada conexión
+function createFakeOracleDriver(
+  rowsFor: (sql: string) => Record<string, unknown>[] = () => [],
+  rowsAffectedFor: (sql: string) => number = () => 1,
+  outBindsFor: (sql: string) => Record<string, unknown> | undefined = () => undefined,
+) {
+  const calls: string[] = [];
+  const driverArgs: Array<{ binds: unknown; options: Record<string, unknown> }> = [];
+  const connection = {
+    execute: (sql: string, binds: Record<string, unknown>, options: Record<string, unknown>) => {
+      calls.push(`${sql}|autoCommit=${options.autoCommit}`);
+      driverArgs.push({ binds, options });
+      if (options.resultSet) {
+        const rows = rowsFor(sql);
+        return Promise.resolve({
+          resultSet: {
+            getRows: (numRows: number) => {
+              calls.push(`FETCH ${numRows}`);
+              return Promise.resolve(rows.splice(0, numRows));
+            },
+            close: () => {
+              calls.push("RESULTSET CLOSE");
+              return Promise.resolve();
+            },
+          },
+        });
+      }
+      const outBinds = outBindsFor(sql);
+      return Promise.resolve({
+        rows: rowsFor(sql),
+        rowsAffected: rowsAffectedFor(sql),
+        ...(outBinds ? { outBinds } : {}),
+      });
+    },
+    executeMany: (sql: string, binds: Record<string, unknown>[], options: Record<string, unknown>) => {
+      calls.push(`${sql}|rows=${binds.length}|autoCommit=${options.autoCommit}`);
+      driverArgs.push({ binds, options });
+      return Promise.resolve({
+        rowsAffected: binds.length - 1,
+        dmlRowCounts: binds.map((_, index) => index === 1 ? 0 : 1),
+        batchErrors: [],
+      });
+    },
+    commit: () => {
+      calls.push("COMMIT");
+      return Promise.resolve();
+    },
+    rollback: () => {
+      calls.push("ROLLBACK");
+      return Promise.resolve();
+    },
+    close: () => {
+      calls.push("CLOSE");
+      return Promise.resolve();
+    },
+  };
+  const driver = {
+    OUT_FORMAT_OBJECT: 4002,
+    CLOB: 2017,
+    BIND_IN: 3001,
+    BIND_OUT: 3003,
+    DB_TYPE_NUMBER: 2010,
+    DB_TYPE_VARCHAR: 2001,
+    DB_TYPE_DATE: 2011,
+    DB_TYPE_TIMESTAMP: 2012,
+    DB_TYPE_CLOB: 2017,
+    DB_TYPE_BLOB: 2019,
+    DB_TYPE_BOOLEAN: 2022,
+    DB_TYPE_CURSOR: 2021,
+    outFormat: 0,
+    fetchAsString: [] as number[],
+    initOracleClient: () => {},
+    createPool: () =>
+      Promise.resolve({
+        getConnection: () => Promise.resolve(connection),
+        close: () => Promise.resolve(),
+        connectionsOpen: 1,
+        connectionsInUse: 0,
+      }),
+  };
+  return { driver, calls, driverArgs };
+}
+
+Deno.test("OracleConnection - transaction commits and shares the connection", async () => {
+  const { driver, calls } = createFakeOracleDriver();
+  const oracle = new OracleConnection(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+
+  await oracle.transaction(async (tx) => {
+    await oracle.execute("INSERT INTO t VALUES (1)");
+    await tx.savepoint("sp1");
+    await tx.rollbackTo("sp1");
+    assertEquals(await tx.createSavepoint("batch"), "batch_1");
+    assertEquals(await tx.createSavepoint("batch"), "batch_2");
+  });
+
+  assertEquals(calls, [
+    "INSERT INTO t VALUES (1)|autoCommit=false",
+    "SAVEPOINT sp1|autoCommit=false",
+    "ROLLBACK TO SAVEPOINT sp1|autoCommit=false",
+    "SAVEPOINT batch_1|autoCommit=false",
+    "SAVEPOINT batch_2|autoCommit=false",
+    "COMMIT",
+    "CLOSE",
+  ]);
+  assertEquals(oracle.getCurrentTransaction(), null);
+});
+
+Deno.test("OracleConnection - transaction rolls back on error", async () => {
+  const { driver, calls } = createFakeOracleDriver();
+  const oracle = new OracleConnection(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+
+  await assertRejects(
+    () =>
+      oracle.transaction(async () => {
+        await oracle.execute("DELETE FROM t");
+        throw new Error("fallo de negocio");
+      }),
+    Error,
+    "fallo de negocio",
+  );
+
+  assertEquals(calls, ["DELETE FROM t|autoCommit=false", "ROLLBACK", "CLOSE"]);
+
+  const tx = await oracle.begin();
+  await assertRejects(() => tx.savepoint("1; DROP TABLE t"), Error, "savepoint inválido");
+  await tx.commit();
+  await assertRejects(() => tx.execute("SELECT 1 FROM dual"), Error, "finalizada");
+});
+
+Deno.test("Transaction - failed commit rolls back and notifies as not committed", async () => {
+  const calls: string[] = [];
+  const connection = {
+    execute: () => Promise.resolve({}),
+    executeMany: () => Promise.resolve({}),
+    commit: () => Promise.reject(new Error("ORA-02091: transaction rolled back")),
+    rollback: () => {
+      calls.push("ROLLBACK");
+      return Promise.resolve();
+    },
+    close: () => {
+      calls.push("CLOSE");
+      return Promise.resolve();
+    },
+  };
+  const tx = new Transaction(connection, 4002);
+  const completions: boolean[] = [];
+  tx.onComplete((committed) => completions.push(committed));
+
+  await assertRejects(() => tx.commit(), Error, "ORA-02091");
+  assertEquals(calls, ["ROLLBACK", "CLOSE"]);
+  assertEquals(completions, [false]);
+  assertEquals(tx.isActive, false);
+});
+
+Deno.test("GenericController - bulk operations run in one executeMany per call", async () => {
+  const { driver, calls } = createFakeOracleDriver();
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    const controller = new GenericController(testEntityConfig, cache);
+
+    // Validación previa: ninguna fila se envía si alguna es inválida
+    const error = await assertRejects(
+      () => controller.createMany([{ name: "Ana", email: "ana@example.com" }, { email: "sin-nombre@example.com" }]),
+      BatchOperationError,
+    );
+    assertEquals(error.rowErrors.map((rowError) => rowError.index), [1]);
+    assertEquals(calls, []);
+
+    // Con continueOnError, la fila inexistente se reporta y el resto se confirma
+    const result = await controller.deleteMany([1, 2, 3], { continueOnError: true });
+    assertEquals(result.rowsAffected, 2);
+    assertEquals(result.errors, [{ index: 1, message: "Registro no encontrado" }]);
+    assertEquals(calls, ["DELETE FROM test_table WHERE id = :id|rows=3|autoCommit=false", "COMMIT", "CLOSE"]);
+
+    // Sin continueOnError, el lote se revierte
+    calls.length = 0;
+    await assertRejects(() => controller.deleteMany([1, 2]), BatchOperationError, "Registro no encontrado");
+    assertEquals(calls, ["DELETE FROM test_table WHERE id = :id|rows=2|autoCommit=false", "ROLLBACK", "CLOSE"]);
+  } finally {
+    cache.destroy();
+    await closePool();
+  }
+});
+
+Deno.test("OracleConnection - bind definitions reach the driver as driver constants", async () => {
+  const { driver, driverArgs } = createFakeOracleDriver();
+  const oracle = new OracleConnection(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const builder = new SqlBuilder({ ...testEntityConfig, autoIncrement: true });
+
+  const batch = builder.buildInsertManyQuery([{ name: "Ana", email: "ana@example.com" }]);
+  await oracle.executeMany(batch.sql, batch.binds, { bindDefs: batch.bindDefs });
+  assertEquals(driverArgs[0].options.bindDefs, {
+    name: { type: 2001, dir: 3001, maxSize: 4000 },
+    email: { type: 2001, dir: 3001, maxSize: 4000 },
+    new_id: { type: 2010, dir: 3003 },
+  });
+
+  await oracle.execute("BEGIN :total := f(:id); END;", { id: 1, total: { type: "NUMBER", dir: "OUT" } });
+  assertEquals(driverArgs[1].binds, { id: 1, total: { type: 2010, dir: 3003 } });
+
+  for await (const _row of oracle.stream("SELECT * FROM t WHERE id = :id", { id: { type: "NUMBER", dir: "IN" } })) {
+    // sin filas
+  }
+  assertEquals(driverArgs[2].binds, { id: { type: 2010, dir: 3001 } });
+  await oracle.close();
+
+  // Drivers sin las constantes de binds (mocks, versiones antiguas): se usan los valores numéricos
+  const { BIND_IN: _in, BIND_OUT: _out, DB_TYPE_VARCHAR: _varchar, ...legacyDriver } = driver;
+  const legacy = new OracleConnection(legacyDriver, { user: "u", password: "p", connectString: "localhost/XE" });
+  await legacy.execute("BEGIN :name := f; END;", { name: { type: "STRING", dir: "OUT", maxSize: 100 } });
+  assertEquals(driverArgs[3].binds, { name: { type: 2001, dir: 3003, maxSize: 100 } });
+  await legacy.close();
+});
+
+Deno.test("GenericController - upsert returns the generated key of the written row", async () => {
+  const { driver, calls, driverArgs } = createFakeOracleDriver(
+    (sql) => sql.startsWith("SELECT") ? [{ id: 41, name: "Ana", email: "ana@example.com" }] : [],
+    undefined,
+    (sql) => sql.startsWith("BEGIN") ? { upsert_matched: 0, new_id: 41 } : undefined,
+  );
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    const entity = { ...testEntityConfig, autoIncrement: true };
+    const controller = new GenericController(entity, cache);
+
+    // El ID enviado no existe: la fila insertada recibe una clave generada
+    const result = await controller.upsert({ id: 7, name: "Ana", email: "ana@example.com" });
+    assertEquals(result.action, "inserted");
+    assertEquals(result.id, 41);
+    assertEquals(result.record?.id, 41);
+    assertEquals(calls[0].split("RETURNING id INTO :new_id").length, 4);
+    assertEquals((driverArgs[1].binds as Record<string, unknown>).id, 41);
+
+    // Sin campos que actualizar, la clave se lee de la fila existente
+    const onlyKey = new SqlBuilder({ ...entity, fields: { ...entity.fields, email: { type: "string", unique: true } } })
+      .buildUpsertQuery({ email: "ana@example.com" }, { reportAction: true });
+    assertEquals(
+      onlyKey.sql,
+      "BEGIN SELECT id INTO :new_id FROM test_table WHERE email = :email; :upsert_matched := 1; " +
+        "EXCEPTION WHEN NO_DATA_FOUND THEN INSERT INTO test_table (email) VALUES (:email) RETURNING id INTO :new_id; " +
+        ":upsert_matched := 0; END;",
+    );
+  } finally {
+    cache.destroy();
+    await closePool();
+  }
+});
+
+Deno.test("GenericController - upsert action reporting and batch errors", async () => {
+  const { driver, calls, driverArgs } = createFakeOracleDriver();
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    const controller = new GenericController(testEntityConfig, cache);
+    const rows = [{ id: 1, name: "Ana", email: "ana@example.com" }, { id: 2, name: "Luis", email: "luis@example.com" }];
+
+    // La acción se informa con un bind de salida traducido a las constantes del driver
+    await controller.upsert(rows[0]);
+    assertEquals((driverArgs[0].binds as Record<string, unknown>).upsert_matched, { type: 2010, dir: 3003 });
+
+    // Los errores por fila solo están disponibles con un MERGE sin acción por fila
+    await assertRejects(() => controller.upsertMany(rows, { continueOnError: true }), Error, "reportAction: false");
+    calls.length = 0;
+    driverArgs.length = 0;
+    const result = await controller.upsertMany(rows, { reportAction: false, continueOnError: true });
+    assertEquals(result.actions, [null, null]);
+    assertEquals(calls[0].startsWith("MERGE INTO test_table"), true);
+    assertEquals(driverArgs[0].options.batchErrors, true);
+  } finally {
+    cache.destroy();
+    await closePool();
+  }
+});
+
+Deno.test("GenericController - lifecycle hooks mutate data and veto inside the transaction", async () => {
+  const { driver, calls } = createFakeOracleDriver((sql) =>
+    sql.startsWith("SELECT") ? [{ id: 1, name: "Ana", email: "ana@example.com" }] : []
+  );
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    const controller = new GenericController(testEntityConfig, cache);
+    const seen: string[] = [];
+    controller.addHook("beforeValidate", (context) => {
+      context.data!.name = String(context.data!.name).trim();
+    });
+    controller.addHook("beforeUpdate", (context) => {
+      seen.push(`${context.existing?.name}->${context.data?.name}`);
+    });
+    controller.addHook("beforeDelete", () => {
+      throw new HookVetoError("beforeDelete", "Registro protegido");
+    });
+    controller.addHook("afterFind", (context) => {
+      context.records!.forEach((record) => record.label = `${record.name} <${record.email}>`);
+    });
+
+    await controller.update(1, { name: "  Bea  " });
+    assertEquals(seen, ["Ana->Bea"]);
+    assertEquals(calls.includes("UPDATE test_table SET name = :name WHERE id = :id|autoCommit=false"), true);
+    assertEquals(calls.slice(-2), ["COMMIT", "CLOSE"]);
+
+    // El veto revierte la transacción sin ejecutar el DELETE
+    calls.length = 0;
+    await assertRejects(() => controller.delete(1), HookVetoError, "Registro protegido");
+    assertEquals(calls.some((call) => call.startsWith("DELETE")), false);
+    assertEquals(calls.slice(-2), ["ROLLBACK", "CLOSE"]);
+
+    // Las operaciones masivas ejecutan los hooks fila a fila y no usan executeMany
+    calls.length = 0;
+    seen.length = 0;
+    const updated = await controller.updateMany([{ id: 1, data: { name: " Eva " } }, { id: 1, data: { name: "Sol" } }]);
+    assertEquals(updated, { rowsAffected: 2, errors: [] });
+    assertEquals(seen, ["Ana->Eva", "Ana->Sol"]);
+    assertEquals(calls.some((call) => call.includes("|rows=")), false);
+    const vetoed = await controller.deleteMany([1, 1], { continueOnError: true });
+    assertEquals(vetoed.errors.map((error) => error.message), ["Registro protegido", "Registro protegido"]);
+    assertEquals(calls.some((call) => call.startsWith("DELETE")), false);
+    await assertRejects(() => controller.upsert({ id: 1, name: "Ana" }), OperationNotAllowedError, "upsert");
+
+    // afterFind trabaja sobre copias: el registro en caché no cambia
+    assertEquals((await controller.findById(1))?.label, "Ana <ana@example.com>");
+    assertEquals(controller.removeHook("afterFind", () => {}), false);
+  } finally {
+    cache.destroy();
+    await closePool();
+  }
+});
+
+Deno.test("GenericController - nested hooked writes roll back to their own savepoint", async () => {
+  const { driver, calls } = createFakeOracleDriver((sql) =>
+    sql.startsWith("SELECT") ? [{ id: 1, name: "Ana", email: "ana@example.com" }] : []
+  );
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    const parent = new GenericController(testEntityConfig, cache);
+    const child = new GenericController({ ...testEntityConfig, tableName: "child_table" }, cache);
+    child.addHook("beforeCreate", () => {});
+    parent.addHook("afterCreate", async () => {
+      await child.create({ name: "Hijo", email: "hijo@example.com" });
+      throw new HookVetoError("afterCreate", "Padre rechazado");
+    });
+
+    // El fallo del padre revierte hasta su propio savepoint, que incluye la escritura del hijo
+    await withTransaction(async () => {
+      await assertRejects(
+        () => parent.create({ name: "Padre", email: "padre@example.com" }),
+        HookVetoError,
+        "Padre rechazado",
+      );
+    });
+    const savepoints = calls.filter((call) => call.includes("SAVEPOINT"));
+    assertEquals(savepoints, [
+      "SAVEPOINT lifecycle_hooks_1|autoCommit=false",
+      "SAVEPOINT lifecycle_hooks_2|autoCommit=false",
+      "ROLLBACK TO SAVEPOINT lifecycle_hooks_1|autoCommit=false",
+    ]);
+
+    // En un lote con continueOnError, la fila rechazada no deja escrituras parciales
+    calls.length = 0;
+    const result = await parent.createMany([{ name: "Padre", email: "padre@example.com" }], {
+      continueOnError: true,
+    });
+    assertEquals(result.errors.map((error) => error.message), ["Padre rechazado"]);
+    assertEquals(calls.filter((call) => call.includes("SAVEPOINT")), [
+      "SAVEPOINT lifecycle_hooks_1|autoCommit=false",
+      "SAVEPOINT lifecycle_hooks_2|autoCommit=false",
+      "ROLLBACK TO SAVEPOINT lifecycle_hooks_1|autoCommit=false",
+    ]);
+    assertEquals(calls.slice(-2), ["COMMIT", "CLOSE"]);
+  } finally {
+    cache.destroy();
+    await closePool();
+  }
+});
+
+Deno.test("GenericController - audit trail records actor and field diff", async () => {
+  const { driver, calls } = createFakeOracleDriver((sql) =>
+    sql.startsWith("SELECT") ? [{ id: 1, name: "Ana", email: "ana@example.com" }] : []
+  );
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    const entries: AuditEntry[] = [];
+    const controller = new GenericController(
+      { ...testEntityConfig, audit: { enabled: true, excludeFields: ["email"] } },
+      cache,
+    );
+    controller.setAuditSink({
+      write: (entry) => Promise.resolve(void entries.push(entry)),
+      findHistory: (_entity, recordId) => Promise.resolve(entries.filter((entry) => entry.recordId === recordId)),
+    });
+
+    await runWithAuditContext({ actor: "admin" }, () => controller.delete(1));
+    assertEquals(entries.length, 1);
+    assertEquals(entries[0].operation, "delete");
+    assertEquals(entries[0].actor, "admin");
+    assertEquals(entries[0].changes, [
+      { field: "id", before: 1, after: null },
+      { field: "name", before: "Ana", after: null },
+    ]);
+    // La escritura y la auditoría se confirman en la misma transacción
+    assertEquals(calls.slice(-2), ["COMMIT", "CLOSE"]);
+
+    assertEquals((await controller.getAuditHistory(1)).length, 1);
+    await assertRejects(
+      () => new GenericController(testEntityConfig, cache).getAuditHistory(1),
+      OperationNotAllowedError,
+    );
+  } finally {
+    cache.destroy();
+    await closePool();
+  }
+});
+
+Deno.test("GenericController - stale version raises ConcurrencyConflictError", async () => {
+  const { driver } = createFakeOracleDriver(
+    (sql) => sql.startsWith("SELECT") ? [{ id: 1, name: "Ana", email: "ana@example.com", version: 5 }] : [],
+    (sql) => sql.includes(":expected_version") ? 0 : 1,
+  );
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    const controller = new GenericController({
+      ...testEntityConfig,
+      fields: { ...testEntityConfig.fields, version: { type: "number" } },
+      versionField: "version",
+    }, cache);
+
+    const error = await assertRejects(
+      () => controller.update(1, { name: "Bea" }, { expectedVersion: "4" }),
+      ConcurrencyConflictError,
+    );
+    assertEquals(error.currentVersion, "5");
+    assertEquals(await controller.delete(1), true);
+  } finally {
+    cache.destroy();
+    await closePool();
+  }
+});
+
+Deno.test("GenericController - field projections select fewer columns and cache separately", async () => {
+  const { driver, calls } = createFakeOracleDriver((sql) => [
+    sql.includes('email AS "email"') ? { id: 1, name: "Ana", email: "ana@example.com" } : { id: 1, name: "Ana" },
+  ]);
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    const config = { ...testEntityConfig, projections: { list: ["name"] } };
+    const select = new SqlBuilder(config).buildSelectQuery({ fields: "list" });
+    assertEquals(select.sql.includes('(SELECT id AS "id", name AS "name" FROM test_table ORDER BY id ASC)'), true);
+    assertThrows(() => new SqlBuilder(config).buildSelectQuery({ fields: "name,secret" }), InvalidIdentifierError);
+
+    const controller = new GenericController(config, cache);
+    assertEquals(await controller.findById(1, { fields: "list" }), { id: 1, name: "Ana" });
+    assertEquals(await controller.findById(1, { fields: ["name"] }), { id: 1, name: "Ana" });
+    assertEquals(await controller.findById(1), { id: 1, name: "Ana", email: "ana@example.com" });
+    assertEquals(calls.filter((call) => call.startsWith("SELECT")).length, 2);
+  } finally {
+    cache.destroy();
+    await closePool();
+  }
+});
+
+Deno.test("GenericController - facets count distinct values without their own filter", async () => {
+  const { driver, calls, driverArgs } = createFakeOracleDriver((sql) =>
+    sql.includes('SELECT active AS "active"')
+      ? [{ active: 1, count: 7 }, { active: 0, count: 2 }]
+      : [{ name: "Ana", count: 3 }]
+  );
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    const controller = new GenericController({
+      ...testEntityConfig,
+      fields: {
+        ...testEntityConfig.fields,
+        active: { type: "number", values: [{ value: 1, label: "Activo" }, { value: 0, label: "Inactivo" }] },
+      },
+    }, cache);
+
+    const facets = await controller.facets(["active", "name"], { filters: { active: 1, name: "Ana" } });
+    assertEquals(facets, {
+      active: [{ value: 1, label: "Activo", count: 7 }, { value: 0, label: "Inactivo", count: 2 }],
+      name: [{ value: "Ana", count: 3 }],
+    });
+    const selects = () => calls.filter((call) => call.startsWith("SELECT"));
+    assertEquals(selects()[0].includes('WHERE name = :filter_0 GROUP BY active ORDER BY "count" DESC'), true);
+    assertEquals(selects()[1].includes("WHERE active = :filter_0 GROUP BY name"), true);
+
+    await controller.facets(["active", "name"], { filters: { active: 1, name: "Ana" } });
+    assertEquals(selects().length, 2);
+
+    await controller.facets(["active"], {
+      where: { and: [{ active: 0, name: { like: "A%" } }, { or: [{ active: 1 }, { email: "x" }] }], email: "y" },
+      limit: 5,
+    });
+    const stripped = selects()[2];
+    assertEquals(stripped.includes("active = "), false);
+    assertEquals(stripped.includes("WHERE name LIKE :filter_0 AND email = :filter_1 GROUP BY active"), true);
+    assertEquals(stripped.endsWith('ORDER BY "count" DESC) WHERE ROWNUM <= :row_limit|autoCommit=true'), true);
+    assertEquals((driverArgs[2].binds as Record<string, unknown>).row_limit, 5);
+
+    await controller.facets(["name"], { limit: 5000 });
+    assertEquals((driverArgs[3].binds as Record<string, unknown>).row_limit, 100);
+  } finally {
+    cache.destroy();
+    await closePool();
+  }
+});
+
+Deno.test("GenericController - iterate streams rows and releases the connection on break", async () => {
+  const { driver, calls, driverArgs } = createFakeOracleDriver(() =>
+    [1, 2, 3, 4, 5].map((id) => ({ id, name: `N${id}` }))
+  );
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    const controller = new GenericController(testEntityConfig, cache);
+    const ids: unknown[] = [];
+    for await (const record of controller.iterate({ filters: { active: true }, fields: ["name"], fetchArraySize: 2 })) {
+      ids.push(record.id);
+      if (ids.length === 3) break;
+    }
+
+    assertEquals(ids, [1, 2, 3]);
+    assertEquals(
+      calls[0].startsWith('SELECT id AS "id", name AS "name" FROM test_table WHERE active = :filter_0'),
+      true,
+    );
+    assertEquals(calls[0].includes("ROWNUM"), false);
+    assertEquals(calls.slice(1), ["FETCH 2", "FETCH 2", "RESULTSET CLOSE", "CLOSE"]);
+
+    // Sin paginación permitida el recorrido queda limitado a maxPageSize filas, como findAll
+    const unpaged = new GenericController({ ...testEntityConfig, operations: { paginate: false } }, cache);
+    for await (const _record of unpaged.iterate({ fetchArraySize: 10 })) {
+      // consumir todas las filas
+    }
+    const unpagedSql = calls.find((call, index) => index > 4 && call.startsWith("SELECT"))!;
+    assertEquals(unpagedSql.includes("ORDER BY id ASC) WHERE ROWNUM <= :row_limit"), true);
+    assertEquals((driverArgs[1].binds as Record<string, unknown>).row_limit, 100);
+  } finally {
+    cache.destroy();
+    await closePool();
+  }
+});
+
+Deno.test("GenericController - export writes CSV and XLSX streams", async () => {
+  const { driver, calls } = createFakeOracleDriver(() => [
+    { id: 1, name: 'Ana "A", Jr.', active: 1, created: new Date(2024, 0, 31) },
+    { id: 2, name: "Luis", active: 0, created: null },
+    { id: 3, name: '=HYPERLINK("x")\u0007', active: 1, created: null },
+  ]);
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+  const cache = new MemoryCache({ defaultTTL: 300, maxSize: 100, cleanupInterval: 60000 });
+
+  try {
+    const controller = new GenericController({
+      ...testEntityConfig,
+      fields: {
+        id: { type: "number" },
+        name: { type: "string", displayName: "Nombre" },
+        active: { type: "number", values: [{ value: 1, label: "Sí" }, { value: 0, label: "No" }] },
+        created: { type: "date", displayName: "Alta" },
+      },
+    }, cache);
+
+    const csv = await new Response(controller.export("csv", { dateFormat: "DD/MM/YYYY" })).text();
+    assertEquals(
+      csv,
+      'id,Nombre,active,Alta\r\n1,"Ana ""A"", Jr.",Sí,31/01/2024\r\n2,Luis,No,\r\n3,"\'=HYPERLINK(""x"")\u0007",Sí,\r\n',
+    );
+    assertEquals(calls.includes("RESULTSET CLOSE"), true);
+
+    const xlsx = new Uint8Array(await new Response(controller.export("xlsx")).arrayBuffer());
+    assertEquals([...xlsx.slice(0, 4)], [0x50, 0x4B, 0x03, 0x04]);
+    assertEquals(
+      new TextDecoder().decode(xlsx).includes(
+        '<c r="B2" t="inlineStr"><is><t xml:space="preserve">Ana &quot;A&quot;, Jr.',
+      ),
+      true,
+    );
+
+    assertEquals(
+      new TextDecoder().decode(xlsx).includes(
+        '<c r="B4" t="inlineStr"><is><t xml:space="preserve">=HYPERLINK(&quot;x&quot;)</t>',
+      ),
+      true,
+    );
+
+    assertThrows(() => controller.export("pdf" as "csv"), Error, "pdf");
+    const selects = calls.filter((call) => call.startsWith("SELECT")).length;
+    assertThrows(() => controller.export("csv", { orderBy: "missing" }), InvalidIdentifierError);
+    assertEquals(calls.filter((call) => call.startsWith("SELECT")).length, selects);
+  } finally {
+    cache.destroy();
+    await closePool();
+  }
+});
+
+Deno.test("RelationLoader - batched belongsTo, hasMany and manyToMany includes", async () => {
+  const entities = {
+    orders: {
+      tableName: "ORDERS",
+      primaryKey: "id",
+      fields: { id: { type: "number", primaryKey: true }, customerId: { type: "number", column: "CUSTOMER_ID" } },
+      relations: {
+        customer: { type: "belongsTo" as const, entity: "customers", foreignKey: "customerId" },
+        tags: {
+          type: "manyToMany" as const,
+          entity: "tags",
+          through: "order_tags",
+          foreignKey: "orderId",
+          otherKey: "tagId",
+        },
+      },
+    },
+    customers: {
+      tableName: "CUSTOMERS",
+      primaryKey: "id",
+      fields: { id: { type: "number", primaryKey: true }, name: { type: "string" } },
+      relations: { orders: { type: "hasMany" as const, entity: "orders", foreignKey: "customerId" } },
+    },
+    tags: {
+      tableName: "TAGS",
+      primaryKey: "id",
+      fields: { id: { type: "number", primaryKey: true }, label: { type: "string" } },
+    },
+    order_tags: {
+      tableName: "ORDER_TAGS",
+      primaryKey: ["orderId", "tagId"],
+      fields: {
+        orderId: { type: "number", column: "ORDER_ID", primaryKey: true },
+        tagId: { type: "number", column: "TAG_ID", primaryKey: true },
+      },
+    },
+  };
+
+  const { driver, calls } = createFakeOracleDriver((sql) => {
+    if (sql.includes("FROM CUSTOMERS")) return [{ id: 7, name: "Ana" }];
+    if (sql.includes("FROM TAGS")) return [{ id: 1, label: "urgente", __owner: 100 }];
+    if (sql.includes("FROM ORDERS")) return [{ id: 100, customerId: 7 }, { id: 101, customerId: 7 }];
+    return [];
+  });
+  initializePool(driver, { user: "u", password: "p", connectString: "localhost/XE" });
+
+  try {
+    const resolve = (name: string) => Promise.resolve((entities as Record<string, EntityConfig>)[name] || null);
+    const orders = [{ id: 100, customerId: 7 }, { id: 101, customerId: 7 }, { id: 102, customerId: null }];
+
+    const loaded = await new RelationLoader(entities.orders, resolve).load(orders, ["customer.orders", "tags"]);
+    assertEquals(loaded[0].customer, {
+      id: 7,
+      name: "Ana",
+      orders: [{ id: 100, customerId: 7 }, { id: 101, customerId: 7 }],
+    });
+    assertEquals(loaded[2].customer, null);
+    assertEquals(loaded[0].tags, [{ id: 1, label: "urgente" }]);
+    assertEquals(loaded[1].tags, []);
+    assertEquals("customer" in orders[0], false);
+
+    // Una consulta IN por relación, con los valores distintos
+    const queries = calls.filter((call) => call.startsWith("SELECT"));
+    assertEquals(queries.length, 3);
+    assertEquals(queries[0].includes("FROM CUSTOMERS WHERE id IN (:rel_0)"), true);
+    assertEquals(queries[1].includes("FROM ORDERS WHERE CUSTOMER_ID IN (:rel_0)"), true);
+    assertEquals(
+      queries[2].includes("JOIN ORDER_TAGS J ON J.TAG_ID = T.id WHERE J.ORDER_ID IN (:rel_0, :rel_1, :rel_2)"),
+      true,
+    );
+
+    await assertRejects(
+      () => new RelationLoader(entities.orders, resolve).load(orders, ["nope"]),
+      InvalidIdentifierError,
+    );
+  } finally {
+    await closePool();
+  }
+});
+
 console.log("✅ Todos los tests de la librería Deno Oracle han pasado, incluyendo procedimientos almacenados!");